@@ -1,45 +1,75 @@
-/// <reference lib="dom" />
-import React, { useState, useEffect } from 'react';
-import { Upload, Film, Trash2, Plus, LayoutGrid, Download, CheckSquare, Square, Archive, Loader2, Workflow, Menu, Video, Flame, FolderOpen, ArrowLeft, MoreVertical, Calendar, Clock, Monitor, Smartphone, Square as SquareIcon, X } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, Film, Trash2, Plus, LayoutGrid, Download, CheckSquare, Square, Archive, Loader2, Workflow, Menu, Video, Flame, FolderOpen, ArrowLeft, MoreVertical, Calendar, Clock, Monitor, Smartphone, Square as SquareIcon, X, Undo2, Redo2, History, HardDrive, AlertTriangle, FileDown, FolderInput, ListChecks, LocateFixed, StickyNote, SearchX } from 'lucide-react';
 import { TimelineEditor } from './components/TimelineEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ExportProjectModal } from './components/ProjectBundleModals';
+import { RelinkMediaModal } from './components/RelinkMediaModal';
+import { ConvertMediaModal } from './components/ConvertMediaModal';
+import { DashboardToolbar, ProjectCardMenu, RatioFilter } from './components/ProjectDashboard';
+import { JobNotifications, JobsPanel, useJobs } from './components/JobsPanel';
+import { GalleryNotesModal, GalleryToolbar, StarRating } from './components/GalleryToolbar';
+import { AspectRatio, collectGalleryTags, EMPTY_GALLERY_FILTER, filterGalleryItems, GalleryFilter, GalleryItem, GallerySortKey, getProjectDuration, isOnline, NewGalleryItem, Project, ProjectSortKey, sortGalleryItems, sortProjects, VideoItem } from './utils/project';
+import { aspectRatioValue, refitCrop } from './utils/crop';
+import { probeVideo } from './utils/frames';
+import { describeMedia, getCaptureOrigin, MediaMatch, offlineMediaKey } from './utils/media';
+import { formatTime } from './utils/timeline';
+import { requestMediaProbe } from './utils/mediaProbe';
+import { checkPlayback, enqueuePlaybackConversion } from './utils/playback';
+import { enqueueProxyGeneration } from './utils/proxy';
+import { enqueueSceneDetection } from './utils/sceneDetection';
+import { BatchExtractDestination, enqueueBatchExtraction } from './utils/batchExtract';
+import { estimateProjectBytes, formatBytes, getStorageEstimate, isQuotaError, loadProjects, QUOTA_WARNING_RATIO, requestPersistentStorage, saveProjects, StorageEstimate } from './utils/storage';
+import { BUNDLE_EXTENSION, bundleFileName, buildImportedProject, exportProjectBundle, readProjectBundle } from './utils/projectBundle';
+import { enqueueJob, getJobs, isJobActive } from './utils/jobQueue';
+import { discardTarget, emptyHistory, HistoryEntry, HistoryStack, pushHistory, replaceInList, takeRedo, takeUndo } from './utils/history';
 // JSZip será importado dinamicamente para performance
 
-interface VideoItem {
-  id: string;
-  file: File;
-  url: string;
-  name: string;
-  crop?: {
-    scale: number;
-    x: number;
-    y: number;
-  };
-}
-
-interface GalleryItem {
-  id: string;
-  src: string;
-  type: 'inicio' | 'final' | 'manual';
-  videoName: string;
-  createdAt: number;
+// Projetos e histórico ficam num único estado: a mudança e o seu passo de desfazer são aplicados juntos
+interface Workspace {
+  projects: Project[];
+  history: Record<string, HistoryStack<Project>>; // por projeto, mais o escopo do dashboard
+  // Contador por projeto de dados derivados gravados sem mexer em `lastModified` (ver annotateProject)
+  annotations: Record<string, number>;
 }
 
-type AspectRatio = '16:9' | '9:16' | '1:1';
+// Criar/excluir projetos é desfeito a partir do dashboard; o resto, dentro de cada projeto
+const DASHBOARD_SCOPE = 'dashboard';
+const UNDO_TOAST_MS = 6000;
+// Espera entre a última mudança e a gravação no IndexedDB
+const AUTOSAVE_DELAY_MS = 800;
+// ZIPs da galeria rodam numa trilha própria, sem esperar exportações de vídeo
+const ZIP_LANE = 'zip';
+
+// O que o autosave compara com a última gravação: edições mudam `lastModified`, anotações o contador
+const saveVersionOf = (project: Project, annotations: Record<string, number>) =>
+  `${project.lastModified}:${annotations[project.id] ?? 0}`;
+
+// Rótulo do passo no histórico a partir dos campos alterados no clipe
+const describeVideoUpdate = (updates: Partial<VideoItem>): string => {
+  if ('crop' in updates) return 'Ajustar corte';
+  if ('transition' in updates) return 'Alterar transição';
+  if ('inPoint' in updates || 'outPoint' in updates) return 'Ajustar trim';
+  if ('name' in updates) return 'Renomear clipe';
+  if ('sceneCuts' in updates) return updates.sceneCuts ? 'Detectar cenas' : 'Remover marcadores de cena';
+  return 'Editar clipe';
+};
 
-interface Project {
-  id: string;
-  name: string;
-  aspectRatio: AspectRatio;
-  createdAt: number;
-  lastModified: number;
-  videos: VideoItem[];
-  galleryItems: GalleryItem[];
-}
+// Nome do PNG baixado: clipe, tipo e, quando conhecidos, frame e instante da captura
+const galleryFileName = (item: GalleryItem, clipName: string) => {
+  const nameOnly = clipName.substring(0, clipName.lastIndexOf('.')) || clipName;
+  const frame = item.frameNumber !== undefined ? `_f${item.frameNumber}` : '';
+  const time = item.captureTime !== undefined ? `_${item.captureTime.toFixed(3)}s` : '';
+  return `${nameOnly}_${item.type}${frame}${time}_${item.id.slice(0, 4)}.png`;
+};
 
 const App: React.FC = () => {
   // --- Estado Global de Projetos ---
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace>({ projects: [], history: {}, annotations: {} });
+  const projects = workspace.projects;
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Aviso com "Desfazer" após exclusões (substitui o confirm())
+  const [undoToast, setUndoToast] = useState<{ label: string; scope: string; entryId: string } | null>(null);
   
   // Estado para duração total do projeto ativo (calculado pelo TimelineEditor)
   const [activeProjectDuration, setActiveProjectDuration] = useState<number>(0);
@@ -51,23 +81,260 @@ const App: React.FC = () => {
 
   // View interna do Editor (Timeline vs Galeria)
   const [currentView, setCurrentView] = useState<'timeline' | 'gallery'>('timeline');
+  // Clipe e instante que a timeline deve mostrar ao abrir (vindo de "mostrar na timeline" da galeria)
+  const [timelineReveal, setTimelineReveal] = useState<{ videoId: string; time: number } | null>(null);
   
   // Estados para Seleção em Lote (Batch) na Galeria
   const [selectedGalleryIds, setSelectedGalleryIds] = useState<Set<string>>(new Set());
-  const [isZipping, setIsZipping] = useState(false);
+
+  // Fila de tarefas em segundo plano (exportações, ZIPs...)
+  const jobs = useJobs();
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  const activeJobCount = jobs.filter(job => !job.quiet && isJobActive(job)).length;
+  const isZipping = jobs.some(job => job.lane === ZIP_LANE && isJobActive(job));
 
   // Computa o projeto ativo
   const activeProject = projects.find(p => p.id === activeProjectId);
 
+  // --- Persistência (IndexedDB) ---
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [saveStatus, setSaveStatus] = useState<'salvo' | 'salvando' | 'erro'>('salvo');
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [isQuotaExceeded, setIsQuotaExceeded] = useState(false);
+  // Projetos salvos que não passaram na validação (mensagens legíveis)
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  // Versão (ver saveVersionOf) de cada projeto já gravada no banco
+  const savedVersionsRef = useRef<Map<string, string>>(new Map());
+
+  const refreshStorageEstimate = () => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => {});
+  };
+
+  // Restaura os projetos salvos antes de liberar o autosave (senão o banco seria sobrescrito com a lista vazia)
+  useEffect(() => {
+    requestPersistentStorage().catch(() => {});
+    loadProjects()
+      .then(({ projects: restored, migratedIds, errors }) => {
+        // Registros migrados ficam fora do mapa para o autosave regravá-los no esquema atual
+        savedVersionsRef.current = new Map(restored.filter(p => !migratedIds.has(p.id)).map(p => [p.id, saveVersionOf(p, {})]));
+        setWorkspace({ projects: restored, history: {}, annotations: {} });
+        setLoadErrors(errors);
+      })
+      .catch(error => console.error("Erro ao restaurar projetos:", error))
+      .finally(() => {
+        setIsRestoring(false);
+        refreshStorageEstimate();
+      });
+  }, []);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    const saved = savedVersionsRef.current;
+    const { annotations } = workspace;
+    const changedIds = new Set(projects.filter(p => saved.get(p.id) !== saveVersionOf(p, annotations)).map(p => p.id));
+    const hasRemovals = [...saved.keys()].some(id => !projects.some(p => p.id === id));
+    if (changedIds.size === 0 && !hasRemovals) return;
+
+    setSaveStatus('salvando');
+    const timer = setTimeout(() => {
+      saveProjects(projects, changedIds)
+        .then(() => {
+          savedVersionsRef.current = new Map(projects.map(p => [p.id, saveVersionOf(p, annotations)]));
+          setSaveStatus('salvo');
+          setIsQuotaExceeded(false);
+        })
+        .catch(error => {
+          console.error("Erro ao salvar projetos:", error);
+          setSaveStatus('erro');
+          if (isQuotaError(error)) setIsQuotaExceeded(true);
+        })
+        .finally(refreshStorageEstimate);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projects, workspace.annotations, isRestoring]);
+
+  const isStorageNearlyFull = isQuotaExceeded || (storageEstimate !== null && storageEstimate.usage / storageEstimate.quota >= QUOTA_WARNING_RATIO);
+
   // Limpeza de memória ao remover vídeos
   useEffect(() => {
     return () => {
       projects.forEach(p => {
-          p.videos.forEach(v => URL.revokeObjectURL(v.url));
+          p.videos.forEach(v => { if (v.url) URL.revokeObjectURL(v.url); });
       });
     };
   }, []);
 
+  // --- Histórico (desfazer/refazer) ---
+
+  // Toda mudança de projeto passa por aqui e vira um passo no histórico do escopo; devolve o id do passo
+  const changeProject = (
+    projectId: string,
+    label: string,
+    update: (project: Project | null) => Project | null,
+    options: { scope?: string; group?: string } = {}
+  ): string => {
+    const entryId = crypto.randomUUID();
+    setWorkspace(prev => {
+      const index = prev.projects.findIndex(p => p.id === projectId);
+      const before = index === -1 ? null : prev.projects[index];
+      const updated = update(before);
+      if (updated === before) return prev;
+
+      const after = updated ? { ...updated, lastModified: Date.now() } : null;
+      const scope = options.scope ?? projectId;
+      const entry: HistoryEntry<Project> = {
+        id: entryId,
+        label,
+        targetId: projectId,
+        before,
+        after,
+        position: index === -1 ? 0 : index,
+        time: Date.now(),
+        group: options.group
+      };
+      return {
+        ...prev,
+        projects: replaceInList(prev.projects, projectId, after, entry.position),
+        history: withoutStaleDashboardSteps({ ...prev.history, [scope]: pushHistory(prev.history[scope] ?? emptyHistory<Project>(), entry) }, scope, [projectId])
+      };
+    });
+    return entryId;
+  };
+
+  // Os passos do dashboard guardam o projeto inteiro: depois de uma edição dentro dele, desfazer um
+  // renomear/arquivar/formato restauraria o snapshot antigo por cima das edições. Esses passos são descartados.
+  const withoutStaleDashboardSteps = (history: Workspace['history'], scope: string, projectIds: string[]) => {
+    const dashboard = history[DASHBOARD_SCOPE];
+    if (scope === DASHBOARD_SCOPE || !dashboard) return history;
+    const next = projectIds.reduce((stack, id) => discardTarget(stack, id), dashboard);
+    return next === dashboard ? history : { ...history, [DASHBOARD_SCOPE]: next };
+  };
+
+  // Anda `steps` passos no histórico do escopo: negativo desfaz, positivo refaz.
+  // Com `expectedEntryId`, só desfaz se esse passo ainda for o último (ex.: o "Desfazer" de um aviso)
+  const stepHistory = (scope: string, steps: number, expectedEntryId?: string) => {
+    setWorkspace(prev => {
+      let stack = prev.history[scope];
+      if (!stack || steps === 0) return prev;
+      if (expectedEntryId && stack.past[stack.past.length - 1]?.id !== expectedEntryId) return prev;
+      let list = prev.projects;
+      const targets: string[] = [];
+      for (let i = 0; i < Math.abs(steps); i++) {
+        const step = steps < 0 ? takeUndo(stack) : takeRedo(stack);
+        if (!step) break;
+        list = replaceInList(list, step.entry.targetId, steps < 0 ? step.entry.before : step.entry.after, step.entry.position);
+        targets.push(step.entry.targetId);
+        stack = step.stack;
+      }
+      return { ...prev, projects: list, history: withoutStaleDashboardSteps({ ...prev.history, [scope]: stack }, scope, targets) };
+    });
+  };
+
+  // Dados derivados da mídia (ex.: análise do FFmpeg) entram sem virar passo no histórico e sem mudar
+  // `lastModified`; o contador de anotações é o que avisa o autosave que o projeto precisa ser regravado
+  const annotateProject = (projectId: string, update: (project: Project) => Project) => {
+    setWorkspace(prev => {
+      const project = prev.projects.find(p => p.id === projectId);
+      const updated = project && update(project);
+      if (!updated || updated === project) return prev;
+      return {
+        ...prev,
+        projects: prev.projects.map(p => p.id === projectId ? updated : p),
+        annotations: { ...prev.annotations, [projectId]: (prev.annotations[projectId] ?? 0) + 1 },
+      };
+    });
+  };
+
+  const historyScope = activeProjectId ?? DASHBOARD_SCOPE;
+  const activeHistory = workspace.history[historyScope] ?? emptyHistory<Project>();
+
+  // Ctrl+Z / Ctrl+Shift+Z (ou Ctrl+Y); campos de texto mantêm o desfazer nativo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('textarea, [contenteditable="true"], input:not([type="range"]):not([type="checkbox"])')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        stepHistory(historyScope, e.shiftKey ? 1 : -1);
+      } else if (key === 'y') {
+        e.preventDefault();
+        stepHistory(historyScope, 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [historyScope]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // Outra ação (ou um desfazer) mudou o topo do histórico: o aviso já não desfaria o que anuncia
+  const undoToastStack = undoToast ? workspace.history[undoToast.scope] : undefined;
+  useEffect(() => {
+    if (undoToast && undoToastStack?.past[undoToastStack.past.length - 1]?.id !== undoToast.entryId) setUndoToast(null);
+  }, [undoToast, undoToastStack]);
+
+  // --- Pacotes .ffproj (exportar/importar) ---
+  const [bundleProjectId, setBundleProjectId] = useState<string | null>(null);
+  const [isBundling, setIsBundling] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const bundleProject = projects.find(p => p.id === bundleProjectId);
+
+  const handleExportBundle = async (includeMedia: boolean) => {
+    if (!bundleProject) return;
+    setIsBundling(true);
+    try {
+      const blob = await exportProjectBundle(bundleProject, { includeMedia });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = bundleFileName(bundleProject.name);
+      link.click();
+      URL.revokeObjectURL(link.href);
+      setBundleProjectId(null);
+    } catch (error) {
+      console.error("Erro ao exportar projeto:", error);
+      alert("Ocorreu um erro ao empacotar o projeto.");
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const project: Project = buildImportedProject(await readProjectBundle(file));
+      changeProject(project.id, `Importar projeto "${project.name}"`, () => project, { scope: DASHBOARD_SCOPE });
+      // Pacote leve (ou incompleto): abre o projeto já pedindo os vídeos que faltam
+      if (project.videos.some(v => !isOnline(v))) {
+        openProject(project.id);
+        setIsRelinkOpen(true);
+      }
+    } catch (error) {
+      console.error("Erro ao importar projeto:", error);
+      alert(error instanceof Error ? error.message : "Não foi possível importar o projeto.");
+    }
+  };
+
+  // --- Mídia offline ---
+  const [isRelinkOpen, setIsRelinkOpen] = useState(false);
+
+  // Religa de uma vez todos os clipes offline de cada arquivo encontrado (um passo no histórico)
+  const relinkMedia = (matches: Map<string, MediaMatch>) => {
+    const urls = new Map<File, string>();
+    matches.forEach(({ file }) => { if (!urls.has(file)) urls.set(file, URL.createObjectURL(file)); });
+    updateActiveProjectVideos(prev => prev.map(video => {
+      if (isOnline(video)) return video;
+      const match = matches.get(offlineMediaKey(video));
+      return match ? { ...video, file: match.file, url: urls.get(match.file)!, playbackFile: undefined, proxyFile: undefined, proxyUrl: undefined, media: match.info } : video;
+    }), matches.size > 1 ? `Religar ${matches.size} mídias` : 'Religar mídia');
+    setIsRelinkOpen(false);
+  };
+
   // --- Gerenciamento de Projetos ---
 
   const handleCreateProjectClick = () => {
@@ -89,114 +356,358 @@ const App: React.FC = () => {
       galleryItems: []
     };
 
-    setProjects(prev => [newProject, ...prev]);
+    changeProject(newProject.id, 'Criar projeto', () => newProject, { scope: DASHBOARD_SCOPE });
     setActiveProjectId(newProject.id);
     setCurrentView('timeline');
     setIsCreatingProject(false);
   };
 
+  // --- Dashboard: busca, ordenação, filtros e ações sobre projetos ---
+  const [projectQuery, setProjectQuery] = useState('');
+  const [projectSort, setProjectSort] = useState<ProjectSortKey>('lastModified');
+  const [ratioFilter, setRatioFilter] = useState<RatioFilter>('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingProjectId, setRenamingProjectId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const archivedCount = projects.filter(p => p.archived).length;
+  const visibleProjects = sortProjects(projects.filter(p =>
+    !!p.archived === showArchived &&
+    (ratioFilter === 'all' || p.aspectRatio === ratioFilter) &&
+    p.name.toLowerCase().includes(projectQuery.trim().toLowerCase())
+  ), projectSort);
+
+  const startRenameProject = (project: Project) => {
+    setRenamingProjectId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRenameProject = () => {
+    const project = projects.find(p => p.id === renamingProjectId);
+    const name = renameValue.trim();
+    setRenamingProjectId(null);
+    if (!project || !name || name === project.name) return;
+    changeProject(project.id, `Renomear projeto para "${name}"`, p => p && { ...p, name }, { scope: DASHBOARD_SCOPE });
+  };
+
+  // Com mídia: cópia completa (os clipes compartilham os arquivos, com URLs novas). Sem mídia: modelo com a estrutura
+  // (ordem, cortes, trims, transições) e clipes offline prontos para receber outros vídeos.
+  const duplicateProject = (projectId: string, withMedia: boolean) => {
+    const source = projects.find(p => p.id === projectId);
+    if (!source) return;
+    const now = Date.now();
+    // As capturas da cópia continuam apontando para os clipes (agora com ids novos)
+    const newIds = new Map(source.videos.map(video => [video.id, crypto.randomUUID()]));
+    const copy: Project = {
+      id: crypto.randomUUID(),
+      name: withMedia ? `${source.name} (cópia)` : `${source.name} (modelo)`,
+      aspectRatio: source.aspectRatio,
+      createdAt: now,
+      lastModified: now,
+      videos: source.videos.map(({ file, url, playbackFile, proxyFile, proxyUrl, ...video }) => ({
+        ...video,
+        // URLs próprias: liberar as de um projeto não pode quebrar as prévias do outro
+        ...(withMedia && file ? {
+          file, playbackFile, proxyFile,
+          url: URL.createObjectURL(playbackFile ?? file),
+          proxyUrl: proxyFile && URL.createObjectURL(proxyFile),
+        } : {}),
+        id: newIds.get(video.id)!,
+      })),
+      galleryItems: withMedia ? source.galleryItems.map(item => ({
+        ...item,
+        id: crypto.randomUUID(),
+        sourceVideoId: item.sourceVideoId && newIds.get(item.sourceVideoId),
+      })) : [],
+    };
+    changeProject(copy.id, withMedia ? `Duplicar projeto "${source.name}"` : `Criar modelo de "${source.name}"`, () => copy, { scope: DASHBOARD_SCOPE });
+  };
+
+  // Troca o formato e reenquadra os cortes existentes (mesmo centro e mesma área da origem)
+  const changeProjectRatio = async (projectId: string, ratio: AspectRatio) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project || project.aspectRatio === ratio) return;
+    const sizes = new Map<string, { width: number; height: number }>();
+    await Promise.all(project.videos.filter(v => v.crop).map(async v => {
+      const size = v.media?.width && v.media.height ? v.media : v.url ? await probeVideo(v.url).catch(() => null) : null;
+      if (size?.width && size.height) sizes.set(v.id, { width: size.width, height: size.height });
+    }));
+
+    const from = aspectRatioValue(project.aspectRatio);
+    const to = aspectRatioValue(ratio);
+    changeProject(projectId, `Alterar formato para ${ratio}`, p => p && {
+      ...p,
+      aspectRatio: ratio,
+      videos: p.videos.map(v => {
+        const size = sizes.get(v.id);
+        // Sem as dimensões da origem o corte fica como está (continua válido, só não é reajustado)
+        return v.crop && size ? { ...v, crop: refitCrop(v.crop, size.width, size.height, from, to) } : v;
+      }),
+    }, { scope: DASHBOARD_SCOPE });
+  };
+
+  const toggleArchiveProject = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    const archived = !project.archived;
+    const entryId = changeProject(projectId, `${archived ? 'Arquivar' : 'Desarquivar'} projeto "${project.name}"`, p => p && { ...p, archived }, { scope: DASHBOARD_SCOPE });
+    if (archived) setUndoToast({ label: `Projeto "${project.name}" arquivado`, scope: DASHBOARD_SCOPE, entryId });
+  };
+
   const deleteProject = (e: React.MouseEvent, projectId: string) => {
     e.stopPropagation();
-    if(confirm("Tem certeza que deseja excluir este projeto e todos os seus vídeos?")) {
-       const project = projects.find(p => p.id === projectId);
-       // Limpa memória
-       project?.videos.forEach(v => URL.revokeObjectURL(v.url));
-       setProjects(prev => prev.filter(p => p.id !== projectId));
-       if (activeProjectId === projectId) setActiveProjectId(null);
-    }
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    // As URLs dos vídeos não são liberadas: o projeto ainda pode voltar pelo desfazer
+    const entryId = changeProject(projectId, `Excluir projeto "${project.name}"`, () => null, { scope: DASHBOARD_SCOPE });
+    if (activeProjectId === projectId) setActiveProjectId(null);
+    setUndoToast({ label: `Projeto "${project.name}" excluído`, scope: DASHBOARD_SCOPE, entryId });
   };
 
   const openProject = (projectId: string) => {
       setActiveProjectId(projectId);
+      setIsHistoryOpen(false);
+      setIsRelinkOpen(false);
       setCurrentView('timeline');
       setSelectedGalleryIds(new Set()); // Reseta seleção da galeria
+      setGalleryFilter(EMPTY_GALLERY_FILTER); // O filtro por clipe só vale para o projeto em que foi escolhido
+      setAnnotatingItemId(null);
       setActiveProjectDuration(0);
   };
 
   const exitProject = () => {
       setActiveProjectId(null);
+      setIsHistoryOpen(false);
       setActiveProjectDuration(0);
   };
 
   // --- Manipuladores de Dados do Projeto Ativo ---
 
-  const updateActiveProjectVideos = (newVideosOrFn: VideoItem[] | ((prev: VideoItem[]) => VideoItem[])) => {
+  const updateActiveProjectVideos = (
+      newVideosOrFn: VideoItem[] | ((prev: VideoItem[]) => VideoItem[]),
+      label = 'Editar timeline',
+      group?: string
+  ) => {
       if (!activeProjectId) return;
 
-      setProjects(prevProjects => prevProjects.map(proj => {
-          if (proj.id !== activeProjectId) return proj;
-          
+      changeProject(activeProjectId, label, proj => {
+          if (!proj) return proj;
           const updatedVideos = typeof newVideosOrFn === 'function' 
               ? newVideosOrFn(proj.videos) 
               : newVideosOrFn;
-          
-          return {
-              ...proj,
-              videos: updatedVideos,
-              lastModified: Date.now()
-          };
-      }));
+          if (updatedVideos === proj.videos) return proj;
+          return { ...proj, videos: updatedVideos };
+      }, { group });
   };
 
   const handleUpdateVideo = (videoId: string, updates: Partial<VideoItem>) => {
+      // Mudanças seguidas no mesmo campo do mesmo clipe (ex.: slider da transição) viram um passo só
       updateActiveProjectVideos(prev => prev.map(v => 
           v.id === videoId ? { ...v, ...updates } : v
-      ));
+      ), describeVideoUpdate(updates), `${videoId}:${Object.keys(updates).sort().join(',')}`);
   };
 
   const handleRenameVideo = (videoId: string, newName: string) => {
       handleUpdateVideo(videoId, { name: newName });
   };
 
-  const handleFiles = (files: FileList | null) => {
+  // Insere os vídeos na posição indicada da timeline (index >= total = final).
+  // Os dados do arquivo (duração, resolução, impressão digital) ficam guardados para religar a mídia depois.
+  const insertVideosAt = async (index: number, files: FileList | File[] | null) => {
     if (!files || !activeProjectId) return;
 
-    const newVideos: VideoItem[] = Array.from(files)
+    const newVideos: VideoItem[] = await Promise.all(Array.from(files)
       .filter(file => file.type.startsWith('video/'))
-      .map(file => ({
-        id: crypto.randomUUID(),
-        file,
-        url: URL.createObjectURL(file),
-        name: file.name
+      .map(async file => {
+        const url = URL.createObjectURL(file);
+        return { id: crypto.randomUUID(), file, url, name: file.name, media: await describeMedia(file, url) };
       }));
+    if (newVideos.length === 0) return;
 
-    updateActiveProjectVideos((prev) => [...prev, ...newVideos]);
+    updateActiveProjectVideos((prev) => {
+      const at = Math.min(Math.max(0, index), prev.length);
+      return [...prev.slice(0, at), ...newVideos, ...prev.slice(at)];
+    }, newVideos.length > 1 ? `Adicionar ${newVideos.length} vídeos` : 'Adicionar vídeo');
     setCurrentView('timeline');
   };
 
+  // Cada arquivo do projeto aberto é analisado uma vez em segundo plano; o resultado vai para `media.probe`.
+  // Desfazer pode trazer de volta um clipe sem análise: o cache em utils/mediaProbe responde na hora.
+  const probingFilesRef = useRef(new Set<File>());
+  useEffect(() => {
+    if (!activeProject) return;
+    const projectId = activeProject.id;
+    activeProject.videos.filter(isOnline).forEach(video => {
+      const file = video.file;
+      if (video.media?.probe || probingFilesRef.current.has(file)) return;
+      probingFilesRef.current.add(file);
+      requestMediaProbe(file)
+        .then(probe => annotateProject(projectId, proj => {
+          if (!proj.videos.some(v => v.file === file && !v.media?.probe)) return proj;
+          return {
+            ...proj,
+            videos: proj.videos.map(v => v.file === file && !v.media?.probe ? {
+              ...v,
+              media: { ...(v.media ?? { fileName: file.name, size: file.size, type: file.type, lastModified: file.lastModified }), probe }
+            } : v)
+          };
+        }))
+        .catch(error => console.warn(`Não foi possível analisar "${file.name}":`, error))
+        .finally(() => probingFilesRef.current.delete(file));
+    });
+  }, [activeProject?.videos]);
+
+  // --- Arquivos que o navegador não decodifica ---
+  // Intermediários prontos nesta sessão (original → cópia de edição + URL); reaplicados depois de um desfazer
+  const intermediatesRef = useRef(new Map<File, { file: File; url: string }>());
+  const checkedFilesRef = useRef(new Set<File>());
+  const [unplayableFiles, setUnplayableFiles] = useState<File[]>([]);
+  const [isConvertPromptOpen, setIsConvertPromptOpen] = useState(false);
+
+  // Troca a prévia dos clipes do arquivo pelo intermediário (o original continua em `file` para exportar).
+  // Entra como anotação: o autosave regrava o projeto com o `playbackMediaId`, senão o blob seria apagado como órfão
+  const attachIntermediate = (projectId: string, source: File) => {
+    const intermediate = intermediatesRef.current.get(source);
+    if (!intermediate) return;
+    annotateProject(projectId, proj => {
+      if (!proj.videos.some(v => v.file === source && v.playbackFile !== intermediate.file)) return proj;
+      return { ...proj, videos: proj.videos.map(v => v.file === source ? { ...v, playbackFile: intermediate.file, url: intermediate.url } : v) };
+    });
+  };
+
+  // --- Proxies ---
+  // Proxies prontos nesta sessão (original → proxy + URL) e a tarefa de geração de cada arquivo
+  const proxiesRef = useRef(new Map<File, { file: File; url: string }>());
+  const proxyJobsRef = useRef(new Map<File, string>());
+
+  // Também é anotação: o autosave grava o `proxyMediaId` e o proxy não precisa ser refeito ao reabrir
+  const attachProxy = (projectId: string, source: File) => {
+    const proxy = proxiesRef.current.get(source);
+    if (!proxy) return;
+    annotateProject(projectId, proj => {
+      if (!proj.videos.some(v => v.file === source && v.proxyFile !== proxy.file)) return proj;
+      return { ...proj, videos: proj.videos.map(v => v.file === source ? { ...v, proxyFile: proxy.file, proxyUrl: proxy.url } : v) };
+    });
+  };
+
+  // Um proxy por arquivo, mesmo que vários clipes usem o mesmo original
+  const generateProxies = (videoIds: string[]) => {
+    if (!activeProject) return;
+    const projectId = activeProject.id;
+    activeProject.videos.filter(isOnline).forEach(video => {
+      const file = video.file;
+      const jobId = proxyJobsRef.current.get(file);
+      const job = jobId && getJobs().find(j => j.id === jobId);
+      if (!videoIds.includes(video.id) || video.proxyFile || (job && isJobActive(job))) return;
+      proxyJobsRef.current.set(file, enqueueProxyGeneration(video.playbackFile ?? file, proxy => {
+        proxiesRef.current.set(file, { file: proxy, url: URL.createObjectURL(proxy) });
+        attachProxy(projectId, file);
+      }));
+    });
+  };
+
+  // Detecção de cenas por clipe: os cortes marcam o scrubber e um frame por cena vai para a galeria,
+  // tudo num passo só do histórico (desfazer tira os marcadores e os frames juntos)
+  const sceneJobsRef = useRef(new Map<string, string>());
+  const detectingSceneIds = new Set([...sceneJobsRef.current]
+    .filter(([, jobId]) => jobs.some(job => job.id === jobId && isJobActive(job)))
+    .map(([videoId]) => videoId));
+
+  const detectScenes = (videoIds: string[], threshold: number) => {
+    if (!activeProject) return;
+    const projectId = activeProject.id;
+    const aspect = aspectRatioValue(activeProject.aspectRatio);
+    activeProject.videos.filter(isOnline).forEach(video => {
+      if (!videoIds.includes(video.id) || detectingSceneIds.has(video.id)) return;
+      sceneJobsRef.current.set(video.id, enqueueSceneDetection(video, threshold, aspect, ({ cuts, frames }) => {
+        const createdAt = Date.now();
+        const newItems: GalleryItem[] = frames.map(({ src, time }) => ({ id: crypto.randomUUID(), src, type: 'scene', videoName: video.name, createdAt, ...getCaptureOrigin(video, time) }));
+        changeProject(projectId, `Detectar cenas em ${video.name}`, proj => proj && {
+          ...proj,
+          videos: proj.videos.map(v => v.id === video.id ? { ...v, sceneCuts: cuts } : v),
+          galleryItems: [...newItems, ...proj.galleryItems]
+        });
+      }));
+    });
+  };
+
+  // Extração em lote: na galeria, todos os frames entram num único passo do histórico
+  const extractFrames = (videoId: string, times: number[], destination: BatchExtractDestination) => {
+    const video = activeProject?.videos.filter(isOnline).find(v => v.id === videoId);
+    if (!activeProject || !video || times.length === 0) return;
+    const projectId = activeProject.id;
+    enqueueBatchExtraction(video, times, aspectRatioValue(activeProject.aspectRatio), destination, frames => {
+      const createdAt = Date.now();
+      const newItems: GalleryItem[] = frames.map(({ src, time }) => ({ id: crypto.randomUUID(), src, type: 'manual', videoName: video.name, createdAt, ...getCaptureOrigin(video, time) }));
+      changeProject(projectId, `Extrair ${frames.length} frames de ${video.name}`, proj => proj && {
+        ...proj,
+        galleryItems: [...newItems, ...proj.galleryItems]
+      });
+    });
+  };
+
+  // Desfazer pode trazer de volta clipes sem a cópia de edição ou sem o proxy gerados depois
+  useEffect(() => {
+    if (!activeProject) return;
+    const projectId = activeProject.id;
+    activeProject.videos.filter(isOnline).forEach(video => {
+      const file = video.file;
+      if (!video.proxyFile && proxiesRef.current.has(file)) attachProxy(projectId, file);
+      if (video.playbackFile) return;
+      if (intermediatesRef.current.has(file)) { attachIntermediate(projectId, file); return; }
+      if (checkedFilesRef.current.has(file)) return;
+      checkedFilesRef.current.add(file);
+      checkPlayback(file).then(ok => {
+        if (ok) return;
+        setUnplayableFiles(prev => prev.includes(file) ? prev : [...prev, file]);
+        setIsConvertPromptOpen(true);
+      });
+    });
+  }, [activeProject?.videos]);
+
+  // Arquivos do projeto aberto ainda sem prévia (nem convertidos, nem em conversão)
+  const activeUnplayableFiles = unplayableFiles.filter(file => activeProject?.videos.some(v => v.file === file && !v.playbackFile));
+
+  const convertUnplayableFiles = () => {
+    if (!activeProjectId) return;
+    const projectId = activeProjectId;
+    const files = activeUnplayableFiles;
+    setUnplayableFiles(prev => prev.filter(file => !files.includes(file)));
+    setIsConvertPromptOpen(false);
+    files.forEach(file => enqueuePlaybackConversion(file, intermediate => {
+      intermediatesRef.current.set(file, { file: intermediate, url: URL.createObjectURL(intermediate) });
+      attachIntermediate(projectId, file);
+    }));
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    insertVideosAt(Number.MAX_SAFE_INTEGER, files);
+  };
+
   // --- Funções da Galeria (Projeto Ativo) ---
 
-  const addToGallery = (src: string, type: 'inicio' | 'final' | 'manual', videoName: string) => {
+  const addToGallery = (item: NewGalleryItem) => {
     if (!activeProjectId) return;
 
     const newItem: GalleryItem = {
+      ...item,
       id: crypto.randomUUID(),
-      src,
-      type,
-      videoName,
       createdAt: Date.now()
     };
 
-    setProjects(prev => prev.map(proj => {
-        if (proj.id !== activeProjectId) return proj;
-        return {
-            ...proj,
-            galleryItems: [newItem, ...proj.galleryItems],
-            lastModified: Date.now()
-        };
-    }));
+    changeProject(activeProjectId, 'Capturar frame', proj => proj && {
+        ...proj,
+        galleryItems: [newItem, ...proj.galleryItems]
+    });
   };
 
   const removeFromGallery = (id: string) => {
     if (!activeProjectId) return;
 
-    setProjects(prev => prev.map(proj => {
-        if (proj.id !== activeProjectId) return proj;
-        return {
-            ...proj,
-            galleryItems: proj.galleryItems.filter(item => item.id !== id)
-        };
-    }));
+    changeProject(activeProjectId, 'Remover frame', proj => proj && {
+        ...proj,
+        galleryItems: proj.galleryItems.filter(item => item.id !== id)
+    });
 
     setSelectedGalleryIds(prev => {
       const newSet = new Set(prev);
@@ -205,14 +716,62 @@ const App: React.FC = () => {
     });
   };
 
+  // --- Galeria: filtros, ordenação e anotações ---
+  const [galleryFilter, setGalleryFilter] = useState<GalleryFilter>(EMPTY_GALLERY_FILTER);
+  const [gallerySort, setGallerySort] = useState<GallerySortKey>('createdAt');
+  const [annotatingItemId, setAnnotatingItemId] = useState<string | null>(null);
+
+  const galleryTags = activeProject ? collectGalleryTags(activeProject.galleryItems) : [];
+  const visibleGalleryItems = activeProject
+    ? sortGalleryItems(filterGalleryItems(activeProject.galleryItems, galleryFilter), gallerySort, activeProject.videos)
+    : [];
+  const annotatingItem = activeProject?.galleryItems.find(item => item.id === annotatingItemId);
+
+  const updateGalleryItem = (id: string, label: string, updates: Partial<Pick<GalleryItem, 'rating' | 'tags' | 'notes'>>) => {
+    if (!activeProjectId) return;
+    changeProject(activeProjectId, label, proj => {
+      const current = proj?.galleryItems.find(item => item.id === id);
+      // Salvar sem mudar nada não deve virar um passo no histórico
+      if (!proj || !current || (Object.keys(updates) as (keyof typeof updates)[]).every(key => JSON.stringify(current[key]) === JSON.stringify(updates[key]))) return proj;
+      return { ...proj, galleryItems: proj.galleryItems.map(item => item.id === id ? { ...item, ...updates } : item) };
+    });
+  };
+
+  const rateGalleryItem = (id: string, rating: number) =>
+    updateGalleryItem(id, rating > 0 ? `Avaliar frame (${rating} ${rating > 1 ? 'estrelas' : 'estrela'})` : 'Limpar avaliação', { rating: rating > 0 ? rating : undefined });
+
+  // Nome atual do clipe de origem (renomear o clipe não perde a associação)
+  const clipNameOf = (item: GalleryItem) =>
+    activeProject?.videos.find(v => v.id === item.sourceVideoId)?.name ?? item.videoName;
+
   const downloadGalleryItem = (item: GalleryItem) => {
     const link = document.createElement('a');
-    const nameOnly = item.videoName.substring(0, item.videoName.lastIndexOf('.')) || item.videoName;
     link.href = item.src;
-    link.download = `${nameOnly}_frame_${item.type}_${item.id.slice(0,4)}.png`;
+    link.download = galleryFileName(item, clipNameOf(item));
     link.click();
   };
 
+  // Volta para a timeline com o card do clipe em foco, posicionado no instante da captura
+  const showInTimeline = (item: GalleryItem) => {
+    if (!activeProject?.videos.some(v => v.id === item.sourceVideoId)) {
+      alert('O clipe de origem deste frame não está mais no projeto.');
+      return;
+    }
+    setTimelineReveal({ videoId: item.sourceVideoId!, time: item.captureTime ?? 0 });
+    setCurrentView('timeline');
+  };
+
+  // Desfazer/refazer pode remover frames que estavam selecionados, e os filtros podem escondê-los:
+  // a seleção fica sempre dentro do que está visível, para o ZIP e a exclusão não pegarem frames ocultos
+  useEffect(() => {
+    if (!activeProject) return;
+    setSelectedGalleryIds(prev => {
+      const visible = new Set(filterGalleryItems(activeProject.galleryItems, galleryFilter).map(i => i.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [activeProject?.galleryItems, galleryFilter]);
+
   // --- Funções de Lote (Batch) ---
 
   const toggleSelection = (id: string) => {
@@ -227,62 +786,58 @@ const App: React.FC = () => {
     });
   };
 
+  // Age só sobre os frames que passam pelos filtros
   const toggleSelectAll = () => {
     if (!activeProject) return;
-    if (selectedGalleryIds.size === activeProject.galleryItems.length) {
+    if (selectedGalleryIds.size === visibleGalleryItems.length) {
       setSelectedGalleryIds(new Set());
     } else {
-      setSelectedGalleryIds(new Set(activeProject.galleryItems.map(i => i.id)));
+      setSelectedGalleryIds(new Set(visibleGalleryItems.map(i => i.id)));
     }
   };
 
   const deleteSelected = () => {
-    if (!activeProject) return;
-    if (confirm(`Tem certeza que deseja excluir ${selectedGalleryIds.size} itens?`)) {
-        setProjects(prev => prev.map(proj => {
-            if(proj.id !== activeProjectId) return proj;
-            return {
-                ...proj,
-                galleryItems: proj.galleryItems.filter(item => !selectedGalleryIds.has(item.id))
-            };
-        }));
-        setSelectedGalleryIds(new Set());
-    }
+    if (!activeProject || selectedGalleryIds.size === 0) return;
+    const ids = selectedGalleryIds;
+    const label = `Excluir ${ids.size} ${ids.size > 1 ? 'frames' : 'frame'}`;
+    const entryId = changeProject(activeProject.id, label, proj => proj && {
+        ...proj,
+        galleryItems: proj.galleryItems.filter(item => !ids.has(item.id))
+    });
+    setSelectedGalleryIds(new Set());
+    setUndoToast({ label: `${ids.size} ${ids.size > 1 ? 'frames excluídos' : 'frame excluído'}`, scope: activeProject.id, entryId });
   };
 
-  const downloadBatchZip = async () => {
+  // O ZIP vira uma tarefa da fila: a edição continua enquanto ele é gerado
+  const downloadBatchZip = () => {
     if (selectedGalleryIds.size === 0 || !activeProject) return;
-    setIsZipping(true);
-
-    try {
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
-      const folderName = activeProject.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-      const folder = zip.folder(`${folderName}_frames`);
-
-      selectedGalleryIds.forEach(id => {
-        const item = activeProject.galleryItems.find(i => i.id === id);
-        if (item) {
+    const folderName = activeProject.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    const items = visibleGalleryItems.filter(item => selectedGalleryIds.has(item.id))
+      .map(item => ({ item, fileName: galleryFileName(item, clipNameOf(item)) }));
+
+    enqueueJob({
+      label: `ZIP de ${items.length} ${items.length > 1 ? 'frames' : 'frame'} · ${activeProject.name}`,
+      lane: ZIP_LANE,
+      downloadOnFinish: true,
+      run: async ({ signal, reportProgress }) => {
+        const JSZip = (await import('jszip')).default;
+        const zip = new JSZip();
+        const folder = zip.folder(`${folderName}_frames`);
+
+        items.forEach(({ item, fileName }) => {
           const base64Data = item.src.split(',')[1];
-          const nameOnly = item.videoName.substring(0, item.videoName.lastIndexOf('.')) || item.videoName;
-          const fileName = `${nameOnly}_${item.type}_${item.id.slice(0,4)}.png`;
           folder?.file(fileName, base64Data, { base64: true });
-        }
-      });
-
-      const content = await zip.generateAsync({ type: "blob" });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = `${folderName}_batch_${Date.now()}.zip`;
-      link.click();
-      URL.revokeObjectURL(link.href);
-
-    } catch (error) {
-      console.error("Erro ao criar ZIP:", error);
-      alert("Ocorreu um erro ao compactar os arquivos.");
-    } finally {
-      setIsZipping(false);
-    }
+        });
+
+        reportProgress(0, 'Compactando...');
+        const content = await zip.generateAsync({ type: "blob" }, (meta) => {
+          // O JSZip não tem cancelamento; lançar aqui interrompe a compactação
+          if (signal.aborted) throw new Error('Tarefa cancelada.');
+          reportProgress(meta.percent / 100);
+        });
+        return { url: URL.createObjectURL(content), fileName: `${folderName}_batch_${Date.now()}.zip` };
+      }
+    });
   };
 
   // Helper para formatar tempo total
@@ -294,7 +849,7 @@ const App: React.FC = () => {
 
   // --- RENDERIZADORES ---
 
-  const isAllSelected = activeProject && activeProject.galleryItems.length > 0 && selectedGalleryIds.size === activeProject.galleryItems.length;
+  const isAllSelected = visibleGalleryItems.length > 0 && selectedGalleryIds.size === visibleGalleryItems.length;
 
   return (
     <div className="flex h-screen bg-[#0c0a09] overflow-hidden font-sans text-stone-200 animate-fade-in">
@@ -378,9 +933,31 @@ const App: React.FC = () => {
                 Galeria
             </span>
           </button>
+
+          <button 
+            onClick={() => setIsJobsOpen(open => !open)}
+            className={`
+                group relative w-12 h-12 rounded-2xl flex items-center justify-center transition-all duration-300 mt-auto mb-6
+                ${isJobsOpen ? 'bg-[#292524] text-orange-400' : 'text-stone-500 hover:bg-[#292524] hover:text-orange-400'}
+            `}
+            title="Tarefas"
+          >
+            {activeJobCount > 0 ? <Loader2 className="w-6 h-6 animate-spin" /> : <ListChecks className="w-6 h-6" />}
+            {activeJobCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-orange-600 text-white text-[9px] font-bold h-4 w-4 flex items-center justify-center rounded-full border-2 border-[#1c1917] shadow-sm">
+                    {activeJobCount}
+                </span>
+            )}
+            <span className="absolute left-14 bg-[#292524] text-orange-100 text-xs px-2 py-1 rounded border border-orange-900/50 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none shadow-xl z-50">
+                Tarefas
+            </span>
+          </button>
         </div>
       </aside>
 
+      {isJobsOpen && <JobsPanel onClose={() => setIsJobsOpen(false)} />}
+      <JobNotifications />
+
       {/* MAIN AREA */}
       <main className="flex-1 relative flex flex-col h-screen overflow-hidden bg-[#0c0a09]">
         
@@ -389,8 +966,40 @@ const App: React.FC = () => {
              <div className="flex-1 overflow-y-auto custom-scrollbar p-8 flex flex-col">
                  <div className="max-w-6xl mx-auto w-full animate-fade-in flex-1 flex flex-col">
                       
+                      {/* Aviso de espaço: o navegador pode recusar novas gravações */}
+                      {isStorageNearlyFull && (
+                        <div className="mb-6 flex items-start gap-3 p-4 bg-red-950/30 border border-red-900/50 rounded-xl text-sm">
+                            <AlertTriangle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+                            <div>
+                                <p className="font-bold text-red-300">{isQuotaExceeded ? 'Sem espaço para salvar as últimas alterações.' : 'O armazenamento local está quase cheio.'}</p>
+                                <p className="text-xs text-stone-400 mt-1">
+                                    {storageEstimate && <>Em uso: {formatBytes(storageEstimate.usage)} de {formatBytes(storageEstimate.quota)}. </>}
+                                    Exclua projetos ou vídeos que não usa mais para liberar espaço.
+                                </p>
+                            </div>
+                        </div>
+                      )}
+
+                      {loadErrors.length > 0 && (
+                        <div className="mb-6 flex items-start gap-3 p-4 bg-amber-950/20 border border-amber-900/40 rounded-xl text-sm">
+                            <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-amber-300">{loadErrors.length === 1 ? 'Um projeto salvo não pôde ser aberto.' : `${loadErrors.length} projetos salvos não puderam ser abertos.`}</p>
+                                <ul className="text-xs text-stone-400 mt-1 space-y-0.5">
+                                    {loadErrors.map((error, i) => <li key={i} className="font-mono truncate" title={error}>{error}</li>)}
+                                </ul>
+                            </div>
+                            <button onClick={() => setLoadErrors([])} className="p-1 text-stone-500 hover:text-white rounded"><X className="w-4 h-4" /></button>
+                        </div>
+                      )}
+
                       {/* Empty State ou Grid */}
-                      {projects.length === 0 ? (
+                      {isRestoring ? (
+                        <div className="flex-1 flex flex-col items-center justify-center min-h-[500px] text-stone-500 gap-3">
+                            <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+                            <span className="text-sm">Carregando projetos salvos...</span>
+                        </div>
+                      ) : projects.length === 0 ? (
                         <div className="flex-1 flex flex-col items-center justify-center min-h-[500px]">
                             <div className="relative group cursor-pointer mb-8" onClick={handleCreateProjectClick}>
                                 <div className="absolute inset-0 bg-gradient-to-r from-orange-600 to-red-600 blur-3xl opacity-20 group-hover:opacity-40 transition-opacity rounded-full"></div>
@@ -409,11 +1018,27 @@ const App: React.FC = () => {
                                 <Flame className="w-5 h-5 fill-current" />
                                 INICIAR NOVA PRODUÇÃO
                             </button>
+                            <button onClick={() => importInputRef.current?.click()} className="mt-4 flex items-center gap-2 text-xs font-bold text-stone-500 hover:text-orange-400 transition-colors">
+                                <FolderInput className="w-4 h-4" /> IMPORTAR PROJETO ({BUNDLE_EXTENSION})
+                            </button>
                         </div>
                       ) : (
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pt-10">
+                        <>
+                        <DashboardToolbar
+                          query={projectQuery}
+                          onQueryChange={setProjectQuery}
+                          sortKey={projectSort}
+                          onSortChange={setProjectSort}
+                          ratioFilter={ratioFilter}
+                          onRatioFilterChange={setRatioFilter}
+                          showArchived={showArchived}
+                          onToggleArchived={() => setShowArchived(a => !a)}
+                          archivedCount={archivedCount}
+                        />
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pt-6">
                           
-                          {/* Card Criar Novo (Sempre o primeiro) */}
+                          {/* Card Criar Novo (sempre o primeiro, fora dos arquivados) */}
+                          {!showArchived && <>
                           <button 
                             onClick={handleCreateProjectClick}
                             className="group flex flex-col items-center justify-center aspect-[4/3] rounded-2xl border-2 border-dashed border-[#292524] hover:border-orange-500/50 bg-[#1c1917]/30 hover:bg-[#1c1917] transition-all cursor-pointer"
@@ -424,19 +1049,31 @@ const App: React.FC = () => {
                               <span className="font-bold text-stone-500 group-hover:text-stone-300">Criar Novo Projeto</span>
                           </button>
 
+                          <button 
+                            onClick={() => importInputRef.current?.click()}
+                            className="group flex flex-col items-center justify-center aspect-[4/3] rounded-2xl border-2 border-dashed border-[#292524] hover:border-orange-500/50 bg-[#1c1917]/30 hover:bg-[#1c1917] transition-all cursor-pointer"
+                          >
+                              <div className="w-16 h-16 rounded-full bg-[#292524] group-hover:bg-orange-900/20 flex items-center justify-center mb-4 transition-colors">
+                                  <FolderInput className="w-8 h-8 text-stone-600 group-hover:text-orange-500" />
+                              </div>
+                              <span className="font-bold text-stone-500 group-hover:text-stone-300">Importar Projeto</span>
+                              <span className="text-[10px] text-stone-600 font-mono mt-1">{BUNDLE_EXTENSION}</span>
+                          </button>
+                          </>}
+
                           {/* Lista de Projetos Existentes */}
-                          {projects.map(project => (
+                          {visibleProjects.map(project => (
                               <div 
                                 key={project.id}
                                 onClick={() => openProject(project.id)}
-                                className="group relative flex flex-col aspect-[4/3] bg-[#1c1917] rounded-2xl border border-[#292524] hover:border-orange-500/30 overflow-hidden cursor-pointer transition-all hover:shadow-xl hover:shadow-black/50 hover:-translate-y-1"
+                                className={`group relative hover:z-10 flex flex-col aspect-[4/3] bg-[#1c1917] rounded-2xl border border-[#292524] hover:border-orange-500/30 cursor-pointer transition-all hover:shadow-xl hover:shadow-black/50 hover:-translate-y-1 ${project.archived ? 'opacity-70 hover:opacity-100' : ''}`}
                               >
                                   {/* Thumbnail */}
-                                  <div className="flex-1 bg-black relative overflow-hidden flex items-center justify-center border-b border-[#292524]">
-                                      {project.videos.length > 0 ? (
+                                  <div className="flex-1 bg-black relative overflow-hidden rounded-t-2xl flex items-center justify-center border-b border-[#292524]">
+                                      {project.videos.some(isOnline) ? (
                                           <div className="relative w-full h-full">
                                               <video 
-                                                src={project.videos[0].url + "#t=0.5"} 
+                                                src={project.videos.find(isOnline)!.url + "#t=0.5"} 
                                                 className="w-full h-full object-cover opacity-60 group-hover:opacity-80 transition-opacity grayscale group-hover:grayscale-0"
                                                 muted
                                                 preload="metadata"
@@ -464,22 +1101,49 @@ const App: React.FC = () => {
                                   </div>
 
                                   <div className="p-4 relative">
-                                      <h3 className="font-bold text-stone-200 group-hover:text-white truncate pr-8 mb-1">{project.name}</h3>
+                                      {renamingProjectId === project.id ? (
+                                          <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onClick={(e) => e.stopPropagation()}
+                                            onBlur={commitRenameProject}
+                                            onKeyDown={(e) => {
+                                              if (e.key === 'Enter') commitRenameProject();
+                                              else if (e.key === 'Escape') setRenamingProjectId(null);
+                                            }}
+                                            className="w-full bg-[#0c0a09] border border-orange-500 rounded px-1.5 py-0.5 mb-1 text-sm font-bold text-white focus:outline-none"
+                                          />
+                                      ) : (
+                                          <h3 className="font-bold text-stone-200 group-hover:text-white truncate pr-8 mb-1" onDoubleClick={(e) => { e.stopPropagation(); startRenameProject(project); }}>{project.name}</h3>
+                                      )}
                                       <div className="flex items-center gap-3 text-[10px] text-stone-600 font-mono uppercase tracking-wide">
                                           <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {new Date(project.lastModified).toLocaleDateString()}</span>
+                                          {getProjectDuration(project) > 0 && <span className="flex items-center gap-1" title="Duração"><Film className="w-3 h-3" /> {formatTotalTime(getProjectDuration(project))}</span>}
+                                          <span className="flex items-center gap-1" title="Espaço ocupado no navegador"><HardDrive className="w-3 h-3" /> {formatBytes(estimateProjectBytes(project))}</span>
                                       </div>
 
-                                      <button 
-                                        onClick={(e) => deleteProject(e, project.id)}
-                                        className="absolute bottom-4 right-4 p-2 text-stone-600 hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
-                                        title="Excluir Projeto"
-                                      >
-                                          <Trash2 className="w-4 h-4" />
-                                      </button>
+                                      <div className="absolute bottom-4 right-4">
+                                          <ProjectCardMenu
+                                            project={project}
+                                            onRename={() => startRenameProject(project)}
+                                            onDuplicate={(withMedia) => duplicateProject(project.id, withMedia)}
+                                            onChangeRatio={(ratio) => changeProjectRatio(project.id, ratio)}
+                                            onToggleArchive={() => toggleArchiveProject(project.id)}
+                                            onExport={() => setBundleProjectId(project.id)}
+                                            onDelete={(e) => deleteProject(e, project.id)}
+                                          />
+                                      </div>
                                   </div>
                               </div>
                           ))}
                         </div>
+                        {visibleProjects.length === 0 && (
+                          <p className="text-center text-sm text-stone-600 py-16">
+                            {showArchived && archivedCount === 0 ? 'Nenhum projeto arquivado.' : 'Nenhum projeto corresponde à busca ou ao filtro.'}
+                          </p>
+                        )}
+                        </>
                       )}
                  </div>
              </div>
@@ -503,19 +1167,49 @@ const App: React.FC = () => {
                                 </span>
                             </>
                         )}
+                        {saveStatus !== 'salvo' && (
+                            <>
+                                <span className="w-px h-3 bg-stone-700 mx-1"></span>
+                                {saveStatus === 'salvando'
+                                    ? <span className="text-[9px] text-stone-500 flex items-center gap-1"><Loader2 className="w-2.5 h-2.5 animate-spin" /> Salvando</span>
+                                    : <span className="text-[9px] text-red-400 flex items-center gap-1" title={isQuotaExceeded ? 'Armazenamento cheio' : 'Falha ao salvar'}><AlertTriangle className="w-2.5 h-2.5" /> Não salvo</span>}
+                            </>
+                        )}
+                        <span className="w-px h-3 bg-stone-700 mx-1"></span>
+                        <button onClick={() => stepHistory(activeProject.id, -1)} disabled={activeHistory.past.length === 0} className="p-0.5 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400" title="Desfazer (Ctrl+Z)"><Undo2 className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => stepHistory(activeProject.id, 1)} disabled={activeHistory.future.length === 0} className="p-0.5 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400" title="Refazer (Ctrl+Shift+Z)"><Redo2 className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => setIsHistoryOpen(o => !o)} className={`p-0.5 ${isHistoryOpen ? 'text-orange-400' : 'text-stone-400 hover:text-white'}`} title="Histórico"><History className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => setBundleProjectId(activeProject.id)} className="p-0.5 text-stone-400 hover:text-white" title="Exportar projeto"><FileDown className="w-3.5 h-3.5" /></button>
                     </div>
                 </div>
 
+                {isHistoryOpen && (
+                    <div className="absolute top-14 left-1/2 -translate-x-1/2 z-40">
+                        <HistoryPanel stack={activeHistory} onJump={(steps) => stepHistory(activeProject.id, steps)} onClose={() => setIsHistoryOpen(false)} />
+                    </div>
+                )}
+
                 {currentView === 'timeline' && (
                     <TimelineEditor 
                         videos={activeProject.videos} 
                         initialAspectRatio={activeProject.aspectRatio}
-                        setVideos={(val) => updateActiveProjectVideos(val)} 
-                        onAddToGallery={(src, type, name) => addToGallery(src, type, name)}
+                        setVideos={(val, label) => updateActiveProjectVideos(val, label)} 
+                        onAddToGallery={addToGallery}
+                        reveal={timelineReveal}
+                        onRevealHandled={() => setTimelineReveal(null)}
+                        detectingSceneIds={detectingSceneIds}
+                        onDetectScenes={detectScenes}
+                        onBatchExtract={extractFrames}
                         onAddFiles={handleFiles}
+                        onInsertFiles={insertVideosAt}
                         onRenameVideo={handleRenameVideo}
                         onUpdateVideo={handleUpdateVideo}
+                        onRelinkMedia={() => setIsRelinkOpen(true)}
+                        unplayableCount={activeUnplayableFiles.length}
+                        onConvertMedia={() => setIsConvertPromptOpen(true)}
+                        onGenerateProxies={generateProxies}
                         onTotalDurationChange={setActiveProjectDuration}
+                        projectName={activeProject.name}
                     />
                 )}
 
@@ -545,7 +1239,7 @@ const App: React.FC = () => {
 
                                  <button
                                     onClick={downloadBatchZip}
-                                    disabled={selectedGalleryIds.size === 0 || isZipping}
+                                    disabled={selectedGalleryIds.size === 0}
                                     className={`
                                       flex items-center gap-2 px-5 py-2 text-xs font-bold rounded-lg transition-all
                                       ${selectedGalleryIds.size > 0 
@@ -574,6 +1268,19 @@ const App: React.FC = () => {
                              )}
                            </div>
                            
+                           {activeProject.galleryItems.length > 0 && (
+                             <GalleryToolbar
+                               filter={galleryFilter}
+                               onFilterChange={setGalleryFilter}
+                               sortKey={gallerySort}
+                               onSortChange={setGallerySort}
+                               videos={activeProject.videos}
+                               tags={galleryTags}
+                               visibleCount={visibleGalleryItems.length}
+                               totalCount={activeProject.galleryItems.length}
+                             />
+                           )}
+
                            {activeProject.galleryItems.length === 0 ? (
                              <div className="flex flex-col items-center justify-center h-96 text-stone-600 border border-dashed border-[#292524] rounded-3xl bg-[#1c1917]/30">
                                <div className="p-6 bg-[#0c0a09] rounded-full mb-4 shadow-inner">
@@ -585,9 +1292,17 @@ const App: React.FC = () => {
                                  Ir para Timeline
                                </button>
                              </div>
+                           ) : visibleGalleryItems.length === 0 ? (
+                             <div className="flex flex-col items-center justify-center h-64 text-stone-600 border border-dashed border-[#292524] rounded-3xl bg-[#1c1917]/30">
+                               <SearchX className="w-10 h-10 text-stone-700 mb-3" />
+                               <p className="font-medium">Nenhum frame com esses filtros.</p>
+                               <button onClick={() => setGalleryFilter(EMPTY_GALLERY_FILTER)} className="mt-4 px-6 py-2 bg-stone-800 hover:bg-orange-600 hover:text-white text-stone-400 rounded-full text-sm transition-all">
+                                 Limpar filtros
+                               </button>
+                             </div>
                            ) : (
                              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-                               {activeProject.galleryItems.map((item) => {
+                               {visibleGalleryItems.map((item) => {
                                  const isSelected = selectedGalleryIds.has(item.id);
                                  return (
                                    <div 
@@ -623,24 +1338,60 @@ const App: React.FC = () => {
                                          )}
                                        </div>
                                        <div className={`opacity-0 group-hover:opacity-100 transition-opacity ${isSelected ? 'opacity-100' : ''}`}>
-                                          <p className="text-[10px] text-white/90 truncate font-mono mb-1 drop-shadow-md border-l-2 border-orange-500 pl-2">{item.videoName}</p>
+                                          <div className="flex items-center justify-between gap-2 mb-1">
+                                            <StarRating value={item.rating ?? 0} onChange={(rating) => rateGalleryItem(item.id, rating)} />
+                                            {item.notes && <span title={item.notes}><StickyNote className="w-3 h-3 text-stone-300" /></span>}
+                                          </div>
+                                          {item.tags && item.tags.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mb-1">
+                                              {item.tags.map(tag => <span key={tag} className="px-1.5 py-px text-[9px] bg-black/60 border border-white/10 text-stone-200 rounded">{tag}</span>)}
+                                            </div>
+                                          )}
+                                          <p className="text-[10px] text-white/90 truncate font-mono drop-shadow-md border-l-2 border-orange-500 pl-2">{clipNameOf(item)}</p>
+                                          {item.captureTime !== undefined && (
+                                            <p className="text-[9px] text-white/60 truncate font-mono mb-1 pl-2.5">
+                                              {formatTime(item.captureTime)}{item.frameNumber !== undefined && ` · #${item.frameNumber}`}{item.sourceWidth && item.sourceHeight ? ` · ${item.sourceWidth}×${item.sourceHeight}` : ''}
+                                            </p>
+                                          )}
                                           {!isSelected && (
-                                            <button 
-                                              onClick={(e) => { e.stopPropagation(); downloadGalleryItem(item); }}
-                                              className="w-full py-1.5 bg-stone-100 text-stone-900 text-xs font-bold rounded flex items-center justify-center gap-2 hover:bg-orange-500 hover:text-white transition-colors"
-                                            >
-                                              <Download className="w-3 h-3" /> Baixar
-                                            </button>
+                                            <div className="flex gap-1 mt-1">
+                                              <button 
+                                                onClick={(e) => { e.stopPropagation(); downloadGalleryItem(item); }}
+                                                className="flex-1 py-1.5 bg-stone-100 text-stone-900 text-xs font-bold rounded flex items-center justify-center gap-2 hover:bg-orange-500 hover:text-white transition-colors"
+                                              >
+                                                <Download className="w-3 h-3" /> Baixar
+                                              </button>
+                                              {item.sourceVideoId && (
+                                                <button
+                                                  onClick={(e) => { e.stopPropagation(); showInTimeline(item); }}
+                                                  className="px-2 bg-stone-800 text-stone-200 rounded hover:bg-orange-500 hover:text-white transition-colors"
+                                                  title="Mostrar na timeline"
+                                                >
+                                                  <LocateFixed className="w-3.5 h-3.5" />
+                                                </button>
+                                              )}
+                                              <button
+                                                onClick={(e) => { e.stopPropagation(); setAnnotatingItemId(item.id); }}
+                                                className="px-2 bg-stone-800 text-stone-200 rounded hover:bg-orange-500 hover:text-white transition-colors"
+                                                title="Tags e notas"
+                                              >
+                                                <StickyNote className="w-3.5 h-3.5" />
+                                              </button>
+                                            </div>
                                           )}
                                        </div>
                                      </div>
                                      <div className="absolute top-3 left-10 pointer-events-none">
                                         <span className={`px-2 py-0.5 text-[9px] text-white rounded-sm uppercase font-bold tracking-wider shadow-lg
                                             ${item.type === 'inicio' ? 'bg-blue-600/80' : 
-                                              item.type === 'final' ? 'bg-red-600/80' : 'bg-orange-600/80'}
+                                              item.type === 'final' ? 'bg-red-600/80' :
+                                              item.type === 'scene' ? 'bg-emerald-600/80' : 'bg-orange-600/80'}
                                         `}>
-                                          {item.type}
+                                          {item.type === 'scene' ? 'cena' : item.type}
                                         </span>
+                                        {item.rating !== undefined && (
+                                          <span className="ml-1 px-1.5 py-0.5 text-[9px] text-amber-300 bg-black/60 rounded-sm font-bold shadow-lg">★ {item.rating}</span>
+                                        )}
                                      </div>
                                    </div>
                                  );
@@ -654,6 +1405,62 @@ const App: React.FC = () => {
         )}
       </main>
 
+      <input type="file" accept={`${BUNDLE_EXTENSION},application/zip`} ref={importInputRef} className="hidden" onChange={(e) => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }} />
+
+      {bundleProject && (
+        <ExportProjectModal
+          projectName={bundleProject.name}
+          mediaBytes={estimateProjectBytes({ videos: bundleProject.videos, galleryItems: [] })}
+          isExporting={isBundling}
+          onExport={handleExportBundle}
+          onClose={() => setBundleProjectId(null)}
+        />
+      )}
+
+      {isConvertPromptOpen && !isRelinkOpen && activeUnplayableFiles.length > 0 && (
+        <ConvertMediaModal
+          files={activeUnplayableFiles}
+          onConvert={convertUnplayableFiles}
+          onClose={() => setIsConvertPromptOpen(false)}
+        />
+      )}
+
+      {isRelinkOpen && activeProject && activeProject.videos.some(v => !isOnline(v)) && (
+        <RelinkMediaModal
+          videos={activeProject.videos}
+          onRelink={relinkMedia}
+          onClose={() => setIsRelinkOpen(false)}
+        />
+      )}
+
+      {annotatingItem && (
+        <GalleryNotesModal
+          key={annotatingItem.id}
+          item={annotatingItem}
+          clipName={clipNameOf(annotatingItem)}
+          tagSuggestions={galleryTags}
+          onSave={(annotations) => {
+            updateGalleryItem(annotatingItem.id, 'Anotar frame', annotations);
+            setAnnotatingItemId(null);
+          }}
+          onClose={() => setAnnotatingItemId(null)}
+        />
+      )}
+
+      {/* AVISO DE EXCLUSÃO COM DESFAZER */}
+      {undoToast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-4 pl-4 pr-2 py-2 bg-[#1c1917] border border-stone-700 rounded-xl shadow-2xl animate-fade-in">
+          <span className="text-xs text-stone-300">{undoToast.label}</span>
+          <button
+            onClick={() => { stepHistory(undoToast.scope, -1, undoToast.entryId); setUndoToast(null); }}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-orange-400 hover:text-white hover:bg-orange-600 rounded-lg transition-colors"
+          >
+            <Undo2 className="w-3.5 h-3.5" /> DESFAZER
+          </button>
+          <button onClick={() => setUndoToast(null)} className="p-1 text-stone-500 hover:text-white rounded"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
       {/* MODAL DE CRIAÇÃO DE PROJETO */}
       {isCreatingProject && (
         <div className="fixed inset-0 z-[60] bg-[#0c0a09]/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
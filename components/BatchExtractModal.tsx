@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { X, Layers, Images, Archive } from 'lucide-react';
+import { BATCH_EXTRACT_MODES, BatchExtractDestination, BatchExtractSettings, getSamplePositions, MAX_BATCH_FRAMES } from '../utils/batchExtract';
+import { formatFrameRate } from '../utils/mediaProbe';
+import { formatTime } from '../utils/timeline';
+import { DEFAULT_FRAME_RATE } from '../utils/timecode';
+
+const DEFAULT_VALUES: Record<BatchExtractSettings['mode'], number> = { interval: 1, 'every-frame': 10, count: 12 };
+
+interface BatchExtractModalProps {
+  videoName: string;
+  duration: number;   // duração do arquivo (0 enquanto desconhecida)
+  range: { start: number; end: number }; // trecho sugerido (o trim do clipe)
+  frameRate: number;  // 0 quando o arquivo não informa
+  onExtract: (times: number[], destination: BatchExtractDestination) => void;
+  onClose: () => void;
+}
+
+// Extração em lote: escolhe o espaçamento e o trecho, mostra onde cada frame cai e enfileira a tarefa
+export const BatchExtractModal: React.FC<BatchExtractModalProps> = ({ videoName, duration, range, frameRate, onExtract, onClose }) => {
+  const [settings, setSettings] = useState<BatchExtractSettings>({ mode: 'interval', value: DEFAULT_VALUES.interval });
+  const [start, setStart] = useState(range.start);
+  const [end, setEnd] = useState(range.end);
+  const [destination, setDestination] = useState<BatchExtractDestination>('gallery');
+  const unit = BATCH_EXTRACT_MODES.find(m => m.mode === settings.mode)!.unit;
+
+  const times = useMemo(() => getSamplePositions(settings, start, end, frameRate), [settings, start, end, frameRate]);
+  const toPercent = (time: number) => duration > 0 ? (time / duration) * 100 : 0;
+  const clampTime = (value: number) => Math.min(duration, Math.max(0, Number.isFinite(value) ? value : 0));
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="bg-[#1c1917] border border-stone-800 rounded-2xl w-full max-w-lg p-6 flex flex-col gap-5">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2 min-w-0"><Layers className="w-5 h-5 text-orange-500 shrink-0" /> <span className="truncate">Extrair frames · {videoName}</span></h3>
+          <button onClick={onClose} className="p-2 hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5 text-stone-400" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-1">
+          {BATCH_EXTRACT_MODES.map(option => (
+            <button key={option.mode} onClick={() => setSettings({ mode: option.mode, value: DEFAULT_VALUES[option.mode] })} className={`px-1 py-2 rounded text-[10px] font-bold border transition-colors ${settings.mode === option.mode ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-stone-900 border-stone-800 text-stone-400 hover:text-white'}`}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-[10px] font-bold text-stone-500 uppercase">
+          <label className="flex flex-col gap-1">
+            {settings.mode === 'count' ? 'Total' : 'A cada'}
+            <div className="flex items-center gap-1">
+              <input type="number" min={settings.mode === 'interval' ? 0.1 : 1} step={settings.mode === 'interval' ? 0.1 : 1} value={settings.value} onChange={(e) => setSettings({ ...settings, value: parseFloat(e.target.value) || 0 })} className="w-full bg-[#0c0a09] border border-stone-800 rounded px-2 py-1.5 font-mono text-xs text-stone-200 focus:border-orange-500 focus:outline-none" />
+              <span className="normal-case font-normal">{unit}</span>
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            Início
+            <input type="number" min={0} max={duration} step={0.1} value={Number(start.toFixed(2))} onChange={(e) => setStart(clampTime(parseFloat(e.target.value)))} className="w-full bg-[#0c0a09] border border-stone-800 rounded px-2 py-1.5 font-mono text-xs text-stone-200 focus:border-orange-500 focus:outline-none" />
+          </label>
+          <label className="flex flex-col gap-1">
+            Fim
+            <input type="number" min={0} max={duration} step={0.1} value={Number(end.toFixed(2))} onChange={(e) => setEnd(clampTime(parseFloat(e.target.value)))} className="w-full bg-[#0c0a09] border border-stone-800 rounded px-2 py-1.5 font-mono text-xs text-stone-200 focus:border-orange-500 focus:outline-none" />
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="relative h-6 bg-[#0c0a09] rounded border border-stone-800 overflow-hidden">
+            <div className="absolute inset-y-0 bg-orange-500/10" style={{ left: `${toPercent(start)}%`, width: `${toPercent(Math.max(0, end - start))}%` }} />
+            {times.map((time, i) => (
+              <div key={i} className="absolute inset-y-1 w-px bg-orange-400" style={{ left: `${toPercent(time)}%` }} title={formatTime(time)} />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-stone-500">
+            <span className={times.length >= MAX_BATCH_FRAMES ? 'text-amber-400' : ''}>
+              {times.length === 0 ? 'Nenhum frame no trecho' : `${times.length} ${times.length === 1 ? 'frame' : 'frames'}${times.length >= MAX_BATCH_FRAMES ? ` (limite de ${MAX_BATCH_FRAMES})` : ''}`}
+            </span>
+            {settings.mode === 'every-frame' && <span>{frameRate > 0 ? formatFrameRate(frameRate) : `fps desconhecido, usando ${DEFAULT_FRAME_RATE}`}</span>}
+            <button onClick={() => { setStart(range.start); setEnd(range.end); }} className="font-bold text-stone-400 hover:text-white">USAR TRIM</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => setDestination('gallery')} className={`flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold border transition-colors ${destination === 'gallery' ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-stone-900 border-stone-800 text-stone-400 hover:text-white'}`}><Images className="w-4 h-4" /> GALERIA</button>
+          <button onClick={() => setDestination('zip')} className={`flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold border transition-colors ${destination === 'zip' ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-stone-900 border-stone-800 text-stone-400 hover:text-white'}`}><Archive className="w-4 h-4" /> ZIP</button>
+        </div>
+
+        <button onClick={() => onExtract(times, destination)} disabled={times.length === 0} className="py-3 rounded-xl font-bold text-sm bg-white text-black hover:bg-orange-500 hover:text-white transition-all disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-black">
+          EXTRAIR {times.length > 0 ? times.length : ''} {destination === 'zip' ? 'PARA ZIP' : 'PARA A GALERIA'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { X, Wand2, EyeOff } from 'lucide-react';
+import { formatBytes } from '../utils/storage';
+
+interface ConvertMediaModalProps {
+  files: File[];
+  onConvert: () => void;
+  onClose: () => void;
+}
+
+// Oferece converter os arquivos que o navegador não consegue mostrar (a exportação segue usando os originais)
+export const ConvertMediaModal: React.FC<ConvertMediaModalProps> = ({ files, onConvert, onClose }) => (
+  <div className="fixed inset-0 z-[60] bg-[#0c0a09]/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onMouseDown={(e) => e.stopPropagation()}>
+    <div className="bg-[#1c1917] w-full max-w-lg rounded-3xl border border-[#292524] shadow-2xl overflow-hidden relative p-8 flex flex-col max-h-[85vh]">
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-500 hover:text-white hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5" /></button>
+      <div className="w-14 h-14 bg-gradient-to-br from-orange-600 to-red-600 rounded-2xl flex items-center justify-center mb-5 shadow-lg shadow-orange-600/20">
+        <Wand2 className="w-7 h-7 text-white" />
+      </div>
+      <h2 className="text-2xl font-black text-white mb-1">Formato sem prévia</h2>
+      <p className="text-stone-500 text-sm mb-6">
+        {files.length === 1 ? 'O navegador não consegue exibir este arquivo.' : `O navegador não consegue exibir ${files.length} arquivos.`} Converta para uma cópia H.264 de edição — a exportação final continua usando os originais.
+      </p>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-6">
+        {files.map((file, i) => (
+          <div key={i} className="flex items-center gap-3 p-3 rounded-xl border border-[#292524] bg-[#0c0a09]">
+            <EyeOff className="w-4 h-4 text-amber-500 shrink-0" />
+            <p className="flex-1 min-w-0 text-xs font-bold text-stone-300 truncate" title={file.name}>{file.name}</p>
+            <span className="text-[10px] text-stone-600 shrink-0">{formatBytes(file.size)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onClose} className="py-3 rounded-xl font-bold text-xs bg-stone-800 hover:bg-stone-700 text-stone-200">AGORA NÃO</button>
+        <button onClick={onConvert} className="py-3 rounded-xl font-bold text-sm bg-white text-black hover:bg-orange-500 hover:text-white transition-all">
+          {files.length === 1 ? 'CONVERTER' : `CONVERTER ${files.length}`}
+        </button>
+      </div>
+    </div>
+  </div>
+);
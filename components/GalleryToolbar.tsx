@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Search, X, ArrowUpDown, Star, Film, Tag, FilterX, StickyNote } from 'lucide-react';
+import { EMPTY_GALLERY_FILTER, GALLERY_SORT_OPTIONS, GalleryFilter, GalleryItem, GalleryItemType, GallerySortKey, isGalleryFilterActive, MAX_GALLERY_RATING, normalizeTags } from '../utils/project';
+
+const TYPE_OPTIONS: { type: GalleryItemType | 'all'; label: string }[] = [
+  { type: 'all', label: 'TODOS' },
+  { type: 'inicio', label: 'INÍCIO' },
+  { type: 'final', label: 'FINAL' },
+  { type: 'manual', label: 'MANUAL' },
+  { type: 'scene', label: 'CENA' },
+];
+
+interface GalleryToolbarProps {
+  filter: GalleryFilter;
+  onFilterChange: (filter: GalleryFilter) => void;
+  sortKey: GallerySortKey;
+  onSortChange: (key: GallerySortKey) => void;
+  videos: { id: string; name: string }[];
+  tags: string[];
+  visibleCount: number;
+  totalCount: number;
+}
+
+const selectClass = 'bg-transparent text-xs font-bold text-stone-300 py-1.5 pr-1 focus:outline-none cursor-pointer max-w-[160px]';
+
+// Busca nas notas, filtros por tipo, clipe, avaliação e tag, e ordenação da galeria
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({ filter, onFilterChange, sortKey, onSortChange, videos, tags, visibleCount, totalCount }) => {
+  const update = (changes: Partial<GalleryFilter>) => onFilterChange({ ...filter, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-600" />
+        <input
+          type="text"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Buscar nas notas..."
+          className="w-full bg-[#1c1917] border border-[#292524] rounded-xl pl-9 pr-8 py-2.5 text-sm text-white placeholder-stone-600 focus:outline-none focus:border-orange-500 transition-colors"
+        />
+        {filter.query && <button onClick={() => update({ query: '' })} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-stone-500 hover:text-white rounded"><X className="w-3.5 h-3.5" /></button>}
+      </div>
+
+      <div className="flex items-center gap-1 bg-[#1c1917] p-1 rounded-xl border border-[#292524]">
+        {TYPE_OPTIONS.map(option => (
+          <button key={option.type} onClick={() => update({ type: option.type })} className={`px-2.5 py-1.5 text-[10px] font-bold rounded-lg transition-colors ${filter.type === option.type ? 'bg-stone-800 text-orange-400' : 'text-stone-500 hover:text-white'}`}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 bg-[#1c1917] pl-3 pr-1 py-1 rounded-xl border border-[#292524] text-stone-500" title="Clipe de origem">
+        <Film className="w-3.5 h-3.5" />
+        <select value={filter.videoId} onChange={(e) => update({ videoId: e.target.value })} className={selectClass}>
+          <option value="all" className="bg-[#1c1917]">Todos os clipes</option>
+          {videos.map(video => <option key={video.id} value={video.id} className="bg-[#1c1917]">{video.name}</option>)}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-2 bg-[#1c1917] px-3 py-2 rounded-xl border border-[#292524]" title="Avaliação mínima">
+        <StarRating value={filter.minRating} onChange={(minRating) => update({ minRating })} size="w-3.5 h-3.5" />
+      </div>
+
+      {tags.length > 0 && (
+        <label className="flex items-center gap-2 bg-[#1c1917] pl-3 pr-1 py-1 rounded-xl border border-[#292524] text-stone-500" title="Tag">
+          <Tag className="w-3.5 h-3.5" />
+          <select value={filter.tag} onChange={(e) => update({ tag: e.target.value })} className={selectClass}>
+            <option value="all" className="bg-[#1c1917]">Todas as tags</option>
+            {tags.map(tag => <option key={tag} value={tag} className="bg-[#1c1917]">{tag}</option>)}
+          </select>
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 bg-[#1c1917] pl-3 pr-1 py-1 rounded-xl border border-[#292524] text-stone-500">
+        <ArrowUpDown className="w-3.5 h-3.5" />
+        <select value={sortKey} onChange={(e) => onSortChange(e.target.value as GallerySortKey)} className={selectClass}>
+          {GALLERY_SORT_OPTIONS.map(option => <option key={option.key} value={option.key} className="bg-[#1c1917]">{option.label}</option>)}
+        </select>
+      </label>
+
+      {isGalleryFilterActive(filter) && (
+        <button onClick={() => onFilterChange(EMPTY_GALLERY_FILTER)} className="flex items-center gap-2 px-3 py-2.5 text-xs font-bold rounded-xl border bg-orange-600/10 border-orange-500/50 text-orange-400 hover:text-white transition-colors">
+          <FilterX className="w-3.5 h-3.5" />
+          {visibleCount} DE {totalCount}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Estrelas clicáveis; clicar na estrela já marcada limpa a avaliação
+export const StarRating: React.FC<{ value: number; onChange: (value: number) => void; size?: string }> = ({ value, onChange, size = 'w-3 h-3' }) => (
+  <div className="flex items-center gap-0.5">
+    {Array.from({ length: MAX_GALLERY_RATING }, (_, i) => i + 1).map(star => (
+      <button
+        key={star}
+        onClick={(e) => { e.stopPropagation(); onChange(star === value ? 0 : star); }}
+        className={`transition-colors ${star <= value ? 'text-amber-400' : 'text-stone-600 hover:text-amber-300'}`}
+        title={star === value ? 'Limpar avaliação' : `${star} ${star === 1 ? 'estrela' : 'estrelas'}`}
+      >
+        <Star className={size} fill={star <= value ? 'currentColor' : 'none'} />
+      </button>
+    ))}
+  </div>
+);
+
+interface GalleryNotesModalProps {
+  item: GalleryItem;
+  clipName: string;
+  tagSuggestions: string[];
+  onSave: (annotations: Pick<GalleryItem, 'tags' | 'notes'>) => void;
+  onClose: () => void;
+}
+
+// Tags e notas de uma captura; as tags entram com Enter ou vírgula
+export const GalleryNotesModal: React.FC<GalleryNotesModalProps> = ({ item, clipName, tagSuggestions, onSave, onClose }) => {
+  const [tags, setTags] = useState<string[]>(item.tags ?? []);
+  const [draft, setDraft] = useState('');
+  const [notes, setNotes] = useState(item.notes ?? '');
+
+  const addTags = (text: string) => {
+    setTags(prev => normalizeTags([...prev, ...text.split(',')]));
+    setDraft('');
+  };
+
+  const save = () => {
+    const finalTags = normalizeTags([...tags, ...draft.split(',')]);
+    onSave({ tags: finalTags.length > 0 ? finalTags : undefined, notes: notes.trim() || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[#1c1917] border border-stone-800 rounded-2xl w-full max-w-md p-6 flex flex-col gap-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2 min-w-0"><StickyNote className="w-5 h-5 text-orange-500 shrink-0" /> <span className="truncate">Anotar · {clipName}</span></h3>
+          <button onClick={onClose} className="p-2 hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5 text-stone-400" /></button>
+        </div>
+
+        <img src={item.src} className="w-full max-h-48 object-contain bg-black rounded-lg" />
+
+        <label className="flex flex-col gap-1 text-[10px] font-bold text-stone-500 uppercase">
+          Tags
+          <div className="flex flex-wrap items-center gap-1 bg-[#0c0a09] border border-stone-800 rounded px-2 py-1.5 focus-within:border-orange-500">
+            {tags.map(tag => (
+              <span key={tag} className="flex items-center gap-1 px-1.5 py-0.5 bg-stone-800 text-stone-200 rounded normal-case font-medium">
+                {tag}
+                <button onClick={() => setTags(prev => prev.filter(t => t !== tag))} className="text-stone-500 hover:text-white"><X className="w-3 h-3" /></button>
+              </span>
+            ))}
+            <input
+              type="text"
+              list="gallery-tag-suggestions"
+              value={draft}
+              onChange={(e) => e.target.value.includes(',') ? addTags(e.target.value) : setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') { e.preventDefault(); addTags(draft); }
+                if (e.key === 'Backspace' && !draft && tags.length > 0) setTags(prev => prev.slice(0, -1));
+              }}
+              placeholder={tags.length === 0 ? 'ex.: plano geral, favorito' : ''}
+              className="flex-1 min-w-[80px] bg-transparent text-xs text-stone-200 normal-case font-normal placeholder-stone-600 focus:outline-none"
+            />
+            <datalist id="gallery-tag-suggestions">
+              {tagSuggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </div>
+        </label>
+
+        <label className="flex flex-col gap-1 text-[10px] font-bold text-stone-500 uppercase">
+          Notas
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={4}
+            className="w-full bg-[#0c0a09] border border-stone-800 rounded px-2 py-1.5 text-xs text-stone-200 normal-case font-normal resize-none focus:border-orange-500 focus:outline-none custom-scrollbar"
+          />
+        </label>
+
+        <button onClick={save} className="py-3 rounded-xl font-bold text-sm bg-white text-black hover:bg-orange-500 hover:text-white transition-all">
+          SALVAR
+        </button>
+      </div>
+    </div>
+  );
+};
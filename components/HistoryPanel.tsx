@@ -0,0 +1,50 @@
+import React from 'react';
+import { History, X, Circle } from 'lucide-react';
+import { HistoryStack } from '../utils/history';
+
+interface HistoryPanelProps<T> {
+  stack: HistoryStack<T>;
+  onJump: (steps: number) => void; // negativo desfaz, positivo refaz
+  onClose: () => void;
+}
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Lista cronológica dos passos; clicar num passo leva o projeto ao estado logo depois dele
+export const HistoryPanel = <T,>({ stack, onJump, onClose }: HistoryPanelProps<T>) => {
+  const { past, future } = stack;
+
+  return (
+    <div className="w-72 max-h-96 flex flex-col bg-[#1c1917]/95 backdrop-blur border border-stone-800 rounded-2xl shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-stone-800">
+        <span className="text-[10px] font-bold text-stone-400 uppercase tracking-widest flex items-center gap-1.5"><History className="w-3.5 h-3.5 text-orange-500" /> Histórico</span>
+        <button onClick={onClose} className="p-1 hover:bg-stone-800 rounded-full transition-colors"><X className="w-4 h-4 text-stone-500" /></button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar py-1">
+        <button onClick={() => onJump(-past.length)} className={`w-full flex items-center gap-2 px-4 py-1.5 text-left text-xs hover:bg-stone-800 ${past.length === 0 ? 'text-orange-400' : 'text-stone-400'}`}>
+          <Circle className={`w-2 h-2 ${past.length === 0 ? 'fill-current' : ''}`} />
+          <span className="flex-1">Início</span>
+        </button>
+        {past.map((entry, i) => {
+          const isCurrent = i === past.length - 1;
+          return (
+            <button key={entry.id} onClick={() => onJump(i + 1 - past.length)} className={`w-full flex items-center gap-2 px-4 py-1.5 text-left text-xs hover:bg-stone-800 ${isCurrent ? 'text-orange-400 bg-orange-500/5' : 'text-stone-300'}`}>
+              <Circle className={`w-2 h-2 shrink-0 ${isCurrent ? 'fill-current' : ''}`} />
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-[9px] font-mono text-stone-600">{formatClock(entry.time)}</span>
+            </button>
+          );
+        })}
+        {/* Passos desfeitos (ainda dá para refazer) */}
+        {future.map((entry, i) => (
+          <button key={entry.id} onClick={() => onJump(i + 1)} className="w-full flex items-center gap-2 px-4 py-1.5 text-left text-xs text-stone-600 hover:bg-stone-800 hover:text-stone-400">
+            <Circle className="w-2 h-2 shrink-0" />
+            <span className="flex-1 truncate line-through decoration-stone-700">{entry.label}</span>
+            <span className="text-[9px] font-mono">{formatClock(entry.time)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
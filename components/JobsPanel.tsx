@@ -0,0 +1,132 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { X, Loader2, Hourglass, CheckCircle2, XCircle, Ban, RotateCw, Download, Bell, ListChecks } from 'lucide-react';
+import {
+  cancelJob, clearFinishedJobs, dismissJob, downloadJobOutput, estimateRemaining, getJobs, isJobActive, Job, JobStatus,
+  onJobFinished, retryJob, subscribeJobs
+} from '../utils/jobQueue';
+import { formatTime } from '../utils/timeline';
+
+// Aviso de conclusão visível por alguns segundos
+const TOAST_MS = 6000;
+
+export const useJobs = (): Job[] => useSyncExternalStore(subscribeJobs, getJobs);
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Na fila',
+  running: 'Rodando',
+  done: 'Concluída',
+  failed: 'Falhou',
+  cancelled: 'Cancelada',
+};
+
+const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  if (status === 'running') return <Loader2 className="w-4 h-4 text-orange-500 animate-spin shrink-0" />;
+  if (status === 'queued') return <Hourglass className="w-4 h-4 text-stone-500 shrink-0" />;
+  if (status === 'done') return <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />;
+  if (status === 'failed') return <XCircle className="w-4 h-4 text-red-500 shrink-0" />;
+  return <Ban className="w-4 h-4 text-stone-600 shrink-0" />;
+};
+
+const JobRow: React.FC<{ job: Job; now: number }> = ({ job, now }) => {
+  const remaining = estimateRemaining(job, now);
+  const percent = Math.round(job.progress * 100);
+
+  return (
+    <div className="p-3 rounded-xl bg-[#0c0a09] border border-[#292524]">
+      <div className="flex items-center gap-2.5">
+        <StatusIcon status={job.status} />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-bold text-stone-200 truncate" title={job.label}>{job.label}</p>
+          <p className="text-[10px] text-stone-500 truncate">
+            {job.status === 'running' ? (job.detail ?? STATUS_LABELS.running) : STATUS_LABELS[job.status]}
+            {job.status === 'running' && <> · {percent}%</>}
+            {remaining !== null && <> · faltam ~{formatTime(remaining)}</>}
+          </p>
+        </div>
+        {job.output && (
+          <button onClick={() => downloadJobOutput(job.output!)} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title={`Baixar ${job.output.fileName}`}><Download className="w-3.5 h-3.5" /></button>
+        )}
+        {(job.status === 'failed' || job.status === 'cancelled') && (
+          <button onClick={() => retryJob(job.id)} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Tentar de novo"><RotateCw className="w-3.5 h-3.5" /></button>
+        )}
+        {isJobActive(job) ? (
+          <button onClick={() => cancelJob(job.id)} className="px-2 py-1 text-[10px] font-bold text-stone-400 hover:text-white hover:bg-red-600 rounded-lg">CANCELAR</button>
+        ) : (
+          <button onClick={() => dismissJob(job.id)} className="p-1.5 text-stone-600 hover:text-white hover:bg-stone-800 rounded-lg" title="Remover da lista"><X className="w-3.5 h-3.5" /></button>
+        )}
+      </div>
+      {isJobActive(job) && (
+        <div className="h-1 bg-stone-800 rounded-full overflow-hidden mt-2.5">
+          <div className={`h-full transition-all duration-300 ${job.status === 'running' ? 'bg-gradient-to-r from-orange-600 to-red-600' : 'bg-stone-700'}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      {job.error && <p className="text-[10px] text-red-400 mt-1.5 break-words">{job.error}</p>}
+    </div>
+  );
+};
+
+// Painel lateral com todas as tarefas: ativas primeiro, depois as terminadas (mais recentes no topo)
+export const JobsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const jobs = useJobs();
+  const [now, setNow] = useState(Date.now());
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'denied' : Notification.permission);
+  const active = jobs.filter(isJobActive);
+  const finished = jobs.filter(job => !isJobActive(job)).sort((a, b) => (b.finishedAt ?? 0) - (a.finishedAt ?? 0));
+
+  // Relógio para a estimativa de tempo restante
+  useEffect(() => {
+    if (!active.some(job => job.status === 'running')) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active.length > 0]);
+
+  return (
+    <div className="fixed left-24 bottom-6 z-[55] w-96 max-h-[70vh] flex flex-col bg-[#1c1917] border border-stone-700 rounded-2xl shadow-2xl animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#292524]">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2"><ListChecks className="w-4 h-4 text-orange-500" /> Tarefas</h3>
+        <div className="flex items-center gap-1">
+          {permission === 'default' && (
+            <button onClick={() => Notification.requestPermission().then(setPermission)} className="p-1.5 text-stone-500 hover:text-white hover:bg-stone-800 rounded-lg" title="Avisar pelo sistema quando uma tarefa terminar"><Bell className="w-3.5 h-3.5" /></button>
+          )}
+          {finished.length > 0 && <button onClick={clearFinishedJobs} className="px-2 py-1 text-[10px] font-bold text-stone-500 hover:text-white hover:bg-stone-800 rounded-lg">LIMPAR</button>}
+          <button onClick={onClose} className="p-1.5 text-stone-500 hover:text-white hover:bg-stone-800 rounded-lg"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+        {jobs.length === 0 && <p className="text-xs text-stone-600 text-center py-8">Nenhuma tarefa. Exportações e downloads em lote aparecem aqui.</p>}
+        {[...active, ...finished].map(job => <JobRow key={job.id} job={job} now={now} />)}
+      </div>
+    </div>
+  );
+};
+
+// Avisos de tarefas concluídas; com a aba em segundo plano, usa a notificação do sistema se permitida
+export const JobNotifications: React.FC = () => {
+  const [toasts, setToasts] = useState<Job[]>([]);
+
+  useEffect(() => onJobFinished(job => {
+    setToasts(prev => [...prev.filter(t => t.id !== job.id), job]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== job.id)), TOAST_MS);
+    if (document.hidden && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      new Notification(job.status === 'done' ? 'Tarefa concluída' : 'Tarefa falhou', { body: job.label });
+    }
+  }), []);
+
+  if (toasts.length === 0) return null;
+  return (
+    <div className="fixed bottom-6 right-6 z-[70] flex flex-col gap-2 items-end">
+      {toasts.map(job => (
+        <div key={job.id} className="flex items-center gap-3 pl-3 pr-2 py-2 bg-[#1c1917] border border-stone-700 rounded-xl shadow-2xl animate-fade-in max-w-sm">
+          <StatusIcon status={job.status} />
+          <span className="text-xs text-stone-300 truncate">{job.label}{job.status === 'failed' && ' — falhou'}</span>
+          {job.output && (
+            <button onClick={() => downloadJobOutput(job.output!)} className="flex items-center gap-1.5 px-2.5 py-1 text-[10px] font-bold text-orange-400 hover:text-white hover:bg-orange-600 rounded-lg transition-colors shrink-0">
+              <Download className="w-3 h-3" /> BAIXAR
+            </button>
+          )}
+          <button onClick={() => setToasts(prev => prev.filter(t => t.id !== job.id))} className="p-1 text-stone-600 hover:text-white rounded shrink-0"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { X, AlertTriangle, Loader2 } from 'lucide-react';
+import { MediaInfo } from '../utils/project';
+import { displaySize, formatFrameRate } from '../utils/mediaProbe';
+import { formatBytes } from '../utils/storage';
+import { formatTime } from '../utils/timeline';
+
+const describeChannels = (channels: number) =>
+  channels === 1 ? 'mono' : channels === 2 ? 'estéreo' : channels === 6 ? '5.1' : channels === 8 ? '7.1' : `${channels} canais`;
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-3">
+    <span className="text-stone-500">{label}</span>
+    <span className="text-stone-200 font-mono truncate" title={value}>{value}</span>
+  </div>
+);
+
+interface MediaInfoPanelProps {
+  media?: MediaInfo;
+  warnings: string[];
+  proxyFile?: File;
+  onGenerateProxy?: () => void; // ausente quando o clipe é pequeno demais para precisar de proxy
+  onClose: () => void;
+}
+
+// Ficha técnica do arquivo de um clipe, sobreposta ao card; a análise chega em segundo plano
+export const MediaInfoPanel: React.FC<MediaInfoPanelProps> = ({ media, warnings, proxyFile, onGenerateProxy, onClose }) => {
+  const probe = media?.probe;
+  const shown = probe && displaySize(probe);
+
+  return (
+    <div className="absolute inset-0 z-10 bg-[#0c0a09]/95 backdrop-blur-sm p-3 flex flex-col gap-2 text-[10px] animate-fade-in" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-stone-300 uppercase tracking-wider">Informações da mídia</span>
+        <button onClick={onClose} className="p-0.5 text-stone-500 hover:text-white rounded"><X className="w-3.5 h-3.5" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+        {media && <Row label="Arquivo" value={`${media.fileName} · ${formatBytes(media.size)}`} />}
+        {probe ? (
+          <>
+            <Row label="Formato" value={probe.container || '?'} />
+            <Row label="Vídeo" value={`${probe.videoCodec} · ${shown!.width}×${shown!.height} · ${formatFrameRate(probe.frameRate)}`} />
+            {probe.rotation !== 0 && <Row label="Rotação" value={`${probe.rotation}° (codificado ${probe.width}×${probe.height})`} />}
+            <Row label="Áudio" value={probe.audioCodec ? `${probe.audioCodec} · ${describeChannels(probe.audioChannels)}` : 'sem áudio'} />
+            <Row label="Bitrate" value={probe.bitrate > 0 ? `${probe.bitrate} kb/s` : '?'} />
+            <Row label="Duração" value={formatTime(probe.duration)} />
+          </>
+        ) : (
+          <p className="flex items-center gap-1.5 text-stone-500 py-1"><Loader2 className="w-3 h-3 animate-spin" /> Analisando arquivo...</p>
+        )}
+        {proxyFile ? (
+          <Row label="Proxy" value={formatBytes(proxyFile.size)} />
+        ) : onGenerateProxy && (
+          <div className="flex justify-between items-center gap-3">
+            <span className="text-stone-500">Proxy</span>
+            <button onClick={onGenerateProxy} className="px-1.5 py-0.5 font-bold text-orange-400 hover:text-white hover:bg-orange-600 rounded">GERAR</button>
+          </div>
+        )}
+        {warnings.map((warning, i) => (
+          <p key={i} className="flex items-start gap-1.5 text-amber-400 pt-1"><AlertTriangle className="w-3 h-3 shrink-0 mt-px" /> {warning}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
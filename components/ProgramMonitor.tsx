@@ -0,0 +1,268 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Play, Pause, SkipBack, SkipForward, X, MonitorPlay } from 'lucide-react';
+import { CropSettings, aspectRatioValue, getCropPreviewStyle } from '../utils/crop';
+import { formatTime, getClipRange, layoutTimeline, TransitionSettings, TrimPoints } from '../utils/timeline';
+import { getTransitionStyles } from '../utils/transitionStyles';
+
+// O que o monitor precisa de cada clipe da timeline
+interface MonitorClip extends TrimPoints {
+  id: string;
+  url: string;
+  name: string;
+  crop?: CropSettings;
+  transition?: TransitionSettings;
+}
+
+interface ProgramMonitorProps {
+  clips: MonitorClip[];
+  durations: Record<string, number>; // duração da origem de cada clipe (id -> s)
+  aspectRatio: string;
+  onActiveClipChange?: (clipId: string | null) => void;
+  onClose: () => void;
+}
+
+type Slot = 0 | 1;
+
+/**
+ * Monitor de programa: toca a timeline inteira em sequência com dois <video> alternados —
+ * enquanto um toca, o outro já está carregado no início do próximo clipe (troca sem buraco).
+ */
+export const ProgramMonitor: React.FC<ProgramMonitorProps> = ({ clips, durations, aspectRatio, onActiveClipChange, onClose }) => {
+  const slotRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+  const [programTime, setProgramTime] = useState(0);
+  const programTimeRef = useRef(0);
+  programTimeRef.current = programTime;
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Clipe carregado em cada slot e tamanho da origem (para o corte)
+  const [slotClips, setSlotClips] = useState<[number | null, number | null]>([null, null]);
+  const [slotSizes, setSlotSizes] = useState<[{ width: number; height: number }, { width: number; height: number }]>([{ width: 0, height: 0 }, { width: 0, height: 0 }]);
+  // Transição em andamento: progresso 0..1 e slot do clipe que está saindo
+  const [blend, setBlend] = useState<{ progress: number; outgoingSlot: Slot } | null>(null);
+
+  const activeSlotRef = useRef<Slot>(0);
+  const activeIndexRef = useRef(0);
+  const slotIndexRef = useRef<[number | null, number | null]>([null, null]);
+  const outgoingRef = useRef<Slot | null>(null);
+  const isPlayingRef = useRef(false);
+  const ratio = aspectRatioValue(aspectRatio);
+
+  const { ranges, layout } = useMemo(() => {
+    const ranges = clips.map(c => getClipRange(c, durations[c.id] ?? 0));
+    const layout = layoutTimeline(clips.map((c, i) => ({ duration: ranges[i].end - ranges[i].start, transition: c.transition })));
+    return { ranges, layout };
+  }, [clips, durations]);
+  const { entries, total } = layout;
+
+  const loadSlot = useCallback((slot: Slot, index: number, offset: number) => {
+    const el = slotRefs[slot].current;
+    const clip = clips[index];
+    if (!el || !clip) return;
+    if (slotIndexRef.current[slot] === null || clips[slotIndexRef.current[slot]!]?.url !== clip.url) {
+      el.src = clip.url;
+    }
+    el.currentTime = ranges[index].start + offset;
+    el.volume = 1;
+    slotIndexRef.current[slot] = index;
+    setSlotClips([...slotIndexRef.current] as [number | null, number | null]);
+  }, [clips, ranges]);
+
+  // Deixa o próximo clipe pronto no slot livre
+  const preloadNext = useCallback((index: number) => {
+    const other = (1 - activeSlotRef.current) as Slot;
+    slotRefs[other].current?.pause();
+    if (index + 1 < clips.length) loadSlot(other, index + 1, 0);
+  }, [clips.length, loadSlot]);
+
+  const setActive = (slot: Slot, index: number) => {
+    activeSlotRef.current = slot;
+    activeIndexRef.current = index;
+    setActiveIndex(index);
+  };
+
+  const findClipAt = (time: number) => {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (time >= entries[i].start) return i;
+    }
+    return 0;
+  };
+
+  const seek = useCallback((time: number) => {
+    if (clips.length === 0) return;
+    const t = Math.min(Math.max(0, time), total);
+    const index = findClipAt(t);
+    outgoingRef.current = null;
+    setBlend(null);
+    slotRefs[(1 - activeSlotRef.current) as Slot].current?.pause();
+    loadSlot(activeSlotRef.current, index, Math.min(t - entries[index].start, entries[index].duration));
+    setActive(activeSlotRef.current, index);
+    preloadNext(index);
+    setProgramTime(t);
+    if (isPlayingRef.current) slotRefs[activeSlotRef.current].current?.play().catch(() => {});
+  }, [clips.length, total, entries, loadSlot, preloadNext]);
+
+  // Mudou a timeline (ordem, trims, transições): pausa e reposiciona no mesmo tempo
+  // (`seek` muda junto com clipes e durações; o tempo vem da ref para o relógio não disparar o efeito)
+  useEffect(() => {
+    isPlayingRef.current = false;
+    setIsPlaying(false);
+    slotRefs.forEach(ref => ref.current?.pause());
+    seek(Math.min(programTimeRef.current, total));
+  }, [seek, total]);
+
+  useEffect(() => {
+    onActiveClipChange?.(clips[activeIndex]?.id ?? null);
+  }, [activeIndex, clips, onActiveClipChange]);
+
+  useEffect(() => () => onActiveClipChange?.(null), [onActiveClipChange]);
+
+  // Relógio do programa: lê o tempo do slot ativo e faz as trocas de clipe
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const i = activeIndexRef.current;
+      const slot = activeSlotRef.current;
+      const el = slotRefs[slot].current;
+      if (!el || !entries[i]) return;
+      const t = entries[i].start + (el.currentTime - ranges[i].start);
+      setProgramTime(t);
+
+      // Transição de entrada em andamento: mistura e, no fim, libera o slot do clipe anterior
+      const outgoing = outgoingRef.current;
+      if (outgoing !== null) {
+        const p = entries[i].transitionIn > 0 ? Math.min(1, (t - entries[i].start) / entries[i].transitionIn) : 1;
+        const outEl = slotRefs[outgoing].current;
+        if (outEl) outEl.volume = 1 - p;
+        el.volume = p;
+        setBlend({ progress: p, outgoingSlot: outgoing });
+        if (p >= 1) {
+          outgoingRef.current = null;
+          setBlend(null);
+          el.volume = 1;
+          preloadNext(i);
+        }
+      }
+
+      const next = i + 1;
+      if (next < clips.length && outgoingRef.current === null && t >= entries[next].start) {
+        const nextSlot = (1 - slot) as Slot;
+        slotRefs[nextSlot].current?.play().catch(() => {});
+        if (entries[next].transitionIn > 0) {
+          outgoingRef.current = slot;
+          setActive(nextSlot, next);
+        } else {
+          el.pause();
+          setActive(nextSlot, next);
+          preloadNext(next);
+        }
+      } else if (next >= clips.length && t >= entries[i].start + entries[i].duration) {
+        el.pause();
+        isPlayingRef.current = false;
+        setIsPlaying(false);
+        setProgramTime(total);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, entries, ranges, clips.length, total, preloadNext]);
+
+  const togglePlay = () => {
+    if (clips.length === 0) return;
+    if (isPlaying) {
+      isPlayingRef.current = false;
+      setIsPlaying(false);
+      slotRefs.forEach(ref => ref.current?.pause());
+      return;
+    }
+    isPlayingRef.current = true;
+    if (programTime >= total) seek(0);
+    slotRefs[activeSlotRef.current].current?.play().catch(() => {});
+    if (outgoingRef.current !== null) slotRefs[outgoingRef.current].current?.play().catch(() => {});
+    setIsPlaying(true);
+  };
+
+  // Voltar no meio de um clipe leva ao início dele; só depois vai para o anterior
+  const jumpClip = (delta: number) => {
+    const current = entries[activeIndex];
+    if (!current) return;
+    if (delta < 0 && programTime - current.start > 1) return seek(current.start);
+    const index = Math.min(clips.length - 1, Math.max(0, activeIndex + delta));
+    seek(entries[index].start);
+  };
+
+  // A transição fica guardada no clipe que sai (o anterior ao ativo)
+  const blendType = clips[activeIndex - 1]?.transition?.type ?? 'cut';
+
+  const renderSlot = (slot: Slot) => {
+    const index = slotClips[slot];
+    const clip = index !== null ? clips[index] : undefined;
+    const size = slotSizes[slot];
+    const isActive = slot === activeSlotRef.current;
+    const isOutgoing = blend?.outgoingSlot === slot;
+    const styles = blend ? getTransitionStyles(blendType, blend.progress) : null;
+    const layerStyle: React.CSSProperties = styles
+      ? { ...(isOutgoing ? styles.from : styles.to), zIndex: isOutgoing ? 1 : 2 }
+      : { opacity: isActive ? 1 : 0, zIndex: isActive ? 2 : 1 };
+
+    return (
+      <div key={slot} className="absolute inset-0 overflow-hidden" style={layerStyle}>
+        <video
+          ref={slotRefs[slot]}
+          className={clip?.crop ? '' : 'w-full h-full object-contain'}
+          style={clip?.crop && size.width > 0 ? getCropPreviewStyle(clip.crop, size.width, size.height, ratio) : undefined}
+          onLoadedMetadata={(e) => {
+            const { videoWidth, videoHeight } = e.currentTarget;
+            setSlotSizes(prev => { const next = [...prev] as typeof prev; next[slot] = { width: videoWidth, height: videoHeight }; return next; });
+          }}
+          preload="auto"
+          playsInline
+          crossOrigin="anonymous"
+        />
+      </div>
+    );
+  };
+
+  const overlay = blend ? getTransitionStyles(blendType, blend.progress).overlay : null;
+
+  return (
+    <div className="w-[28rem] bg-[#1c1917]/95 backdrop-blur border border-stone-800 rounded-2xl shadow-2xl p-3 flex flex-col gap-2" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-stone-400 uppercase tracking-widest flex items-center gap-1.5"><MonitorPlay className="w-3.5 h-3.5 text-orange-500" /> Programa</span>
+        <button onClick={onClose} className="p-1 hover:bg-stone-800 rounded-full transition-colors"><X className="w-4 h-4 text-stone-500" /></button>
+      </div>
+
+      {/* Quadro no formato do projeto */}
+      <div className="w-full aspect-video bg-black rounded-lg flex items-center justify-center overflow-hidden">
+        <div className="relative overflow-hidden max-w-full max-h-full" style={{ aspectRatio: `${ratio}`, height: ratio < 16 / 9 ? '100%' : 'auto', width: ratio < 16 / 9 ? 'auto' : '100%' }}>
+          {renderSlot(0)}
+          {renderSlot(1)}
+          {overlay && <div className="absolute inset-0 z-10" style={overlay} />}
+        </div>
+      </div>
+
+      {/* Régua do programa: um segmento por clipe, clique/arraste para buscar */}
+      <div className="relative h-5 flex items-center">
+        <div className="absolute inset-x-0 h-2 flex gap-px rounded overflow-hidden">
+          {entries.map((entry, i) => (
+            <div key={clips[i].id} className={`h-full ${i === activeIndex ? 'bg-orange-500/70' : 'bg-stone-700'}`} style={{ width: `${total > 0 ? ((entry.duration - entry.transitionOut) / total) * 100 : 0}%` }} title={clips[i].name} />
+          ))}
+        </div>
+        <div className="absolute w-0.5 h-5 bg-white pointer-events-none" style={{ left: `${total > 0 ? (programTime / total) * 100 : 0}%` }} />
+        <input type="range" min={0} max={total || 1} step={0.01} value={programTime} onChange={(e) => seek(parseFloat(e.target.value))} className="absolute inset-x-0 w-full opacity-0 cursor-pointer" />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <button onClick={() => jumpClip(-1)} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Clipe anterior"><SkipBack className="w-4 h-4" /></button>
+          <button onClick={togglePlay} disabled={clips.length === 0 || total === 0} className="p-2 bg-orange-600 hover:bg-orange-500 disabled:opacity-40 text-white rounded-full">{isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}</button>
+          <button onClick={() => jumpClip(1)} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Próximo clipe"><SkipForward className="w-4 h-4" /></button>
+        </div>
+        <span className="text-[10px] text-stone-500 truncate px-2">{clips[activeIndex]?.name}</span>
+        <span className="text-[11px] font-mono text-orange-400">{formatTime(programTime)} / {formatTime(total)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { X, FileDown, Loader2 } from 'lucide-react';
+import { BUNDLE_EXTENSION } from '../utils/projectBundle';
+import { formatBytes } from '../utils/storage';
+
+interface ExportProjectModalProps {
+  projectName: string;
+  mediaBytes: number; // soma dos vídeos (sem duplicados)
+  isExporting: boolean;
+  onExport: (includeMedia: boolean) => void;
+  onClose: () => void;
+}
+
+export const ExportProjectModal: React.FC<ExportProjectModalProps> = ({ projectName, mediaBytes, isExporting, onExport, onClose }) => {
+  const [includeMedia, setIncludeMedia] = useState(true);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-[#0c0a09]/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-[#1c1917] w-full max-w-md rounded-3xl border border-[#292524] shadow-2xl overflow-hidden relative p-8">
+        <button onClick={onClose} disabled={isExporting} className="absolute top-4 right-4 p-2 text-stone-500 hover:text-white hover:bg-stone-800 rounded-full transition-colors disabled:opacity-30"><X className="w-5 h-5" /></button>
+
+        <div className="w-14 h-14 bg-gradient-to-br from-orange-600 to-red-600 rounded-2xl flex items-center justify-center mb-5 shadow-lg shadow-orange-600/20">
+          <FileDown className="w-7 h-7 text-white" />
+        </div>
+        <h2 className="text-2xl font-black text-white mb-1">Exportar Projeto</h2>
+        <p className="text-stone-500 text-sm mb-6 truncate">{projectName} → {BUNDLE_EXTENSION}</p>
+
+        <div className="space-y-3 mb-8">
+          <button onClick={() => setIncludeMedia(true)} className={`w-full text-left p-4 rounded-xl border-2 transition-all ${includeMedia ? 'bg-orange-600/10 border-orange-500' : 'bg-[#0c0a09] border-[#292524] hover:border-stone-600'}`}>
+            <p className={`text-sm font-bold ${includeMedia ? 'text-orange-400' : 'text-stone-300'}`}>Completo (com vídeos)</p>
+            <p className="text-xs text-stone-500 mt-1">Abre em qualquer máquina sem precisar dos arquivos originais. ~{formatBytes(mediaBytes)}</p>
+          </button>
+          <button onClick={() => setIncludeMedia(false)} className={`w-full text-left p-4 rounded-xl border-2 transition-all ${!includeMedia ? 'bg-orange-600/10 border-orange-500' : 'bg-[#0c0a09] border-[#292524] hover:border-stone-600'}`}>
+            <p className={`text-sm font-bold ${!includeMedia ? 'text-orange-400' : 'text-stone-300'}`}>Leve (só o projeto)</p>
+            <p className="text-xs text-stone-500 mt-1">Ordem, cortes, trims, transições e galeria. Os vídeos são religados ao importar.</p>
+          </button>
+        </div>
+
+        <button onClick={() => onExport(includeMedia)} disabled={isExporting} className="w-full py-4 rounded-xl font-bold text-sm tracking-wide transition-all shadow-lg bg-white text-black hover:bg-orange-500 hover:text-white disabled:opacity-50 flex items-center justify-center gap-2">
+          {isExporting ? <><Loader2 className="w-4 h-4 animate-spin" /> EMPACOTANDO...</> : 'EXPORTAR'}
+        </button>
+      </div>
+    </div>
+  );
+};
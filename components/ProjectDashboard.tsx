@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, X, ArrowUpDown, Archive, ArchiveRestore, MoreVertical, Pencil, CopyPlus, LayoutTemplate, Ratio, FileDown, Trash2, Check } from 'lucide-react';
+import { AspectRatio, ASPECT_RATIOS, Project, PROJECT_SORT_OPTIONS, ProjectSortKey } from '../utils/project';
+
+export type RatioFilter = AspectRatio | 'all';
+
+interface DashboardToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  sortKey: ProjectSortKey;
+  onSortChange: (key: ProjectSortKey) => void;
+  ratioFilter: RatioFilter;
+  onRatioFilterChange: (ratio: RatioFilter) => void;
+  showArchived: boolean;
+  onToggleArchived: () => void;
+  archivedCount: number;
+}
+
+// Busca por nome, ordenação, filtro de formato e alternância para os arquivados
+export const DashboardToolbar: React.FC<DashboardToolbarProps> = ({ query, onQueryChange, sortKey, onSortChange, ratioFilter, onRatioFilterChange, showArchived, onToggleArchived, archivedCount }) => (
+  <div className="flex flex-wrap items-center gap-3 pt-6">
+    <div className="relative flex-1 min-w-[200px]">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-600" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        placeholder="Buscar projetos..."
+        className="w-full bg-[#1c1917] border border-[#292524] rounded-xl pl-9 pr-8 py-2.5 text-sm text-white placeholder-stone-600 focus:outline-none focus:border-orange-500 transition-colors"
+      />
+      {query && <button onClick={() => onQueryChange('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-stone-500 hover:text-white rounded"><X className="w-3.5 h-3.5" /></button>}
+    </div>
+
+    <div className="flex items-center gap-1 bg-[#1c1917] p-1 rounded-xl border border-[#292524]">
+      {(['all', ...ASPECT_RATIOS] as RatioFilter[]).map(ratio => (
+        <button key={ratio} onClick={() => onRatioFilterChange(ratio)} className={`px-2.5 py-1.5 text-[10px] font-bold rounded-lg transition-colors ${ratioFilter === ratio ? 'bg-stone-800 text-orange-400' : 'text-stone-500 hover:text-white'}`}>
+          {ratio === 'all' ? 'TODOS' : ratio}
+        </button>
+      ))}
+    </div>
+
+    <label className="flex items-center gap-2 bg-[#1c1917] pl-3 pr-1 py-1 rounded-xl border border-[#292524] text-stone-500">
+      <ArrowUpDown className="w-3.5 h-3.5" />
+      <select value={sortKey} onChange={(e) => onSortChange(e.target.value as ProjectSortKey)} className="bg-transparent text-xs font-bold text-stone-300 py-1.5 pr-1 focus:outline-none cursor-pointer">
+        {PROJECT_SORT_OPTIONS.map(option => <option key={option.key} value={option.key} className="bg-[#1c1917]">{option.label}</option>)}
+      </select>
+    </label>
+
+    <button onClick={onToggleArchived} className={`flex items-center gap-2 px-3 py-2.5 text-xs font-bold rounded-xl border transition-colors ${showArchived ? 'bg-orange-600/10 border-orange-500/50 text-orange-400' : 'bg-[#1c1917] border-[#292524] text-stone-500 hover:text-white'}`}>
+      <Archive className="w-3.5 h-3.5" />
+      ARQUIVADOS{archivedCount > 0 && ` (${archivedCount})`}
+    </button>
+  </div>
+);
+
+interface ProjectCardMenuProps {
+  project: Project;
+  onRename: () => void;
+  onDuplicate: (withMedia: boolean) => void;
+  onChangeRatio: (ratio: AspectRatio) => void;
+  onToggleArchive: () => void;
+  onExport: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+}
+
+const MenuItem: React.FC<{ icon: React.ReactNode; label: string; hint?: string; danger?: boolean; onClick: (e: React.MouseEvent) => void }> = ({ icon, label, hint, danger = false, onClick }) => (
+  <button onClick={onClick} className={`w-full flex items-center gap-2.5 px-3 py-2 text-left text-xs rounded-lg transition-colors ${danger ? 'text-red-400 hover:bg-red-500/10' : 'text-stone-300 hover:bg-stone-800 hover:text-white'}`}>
+    {icon}
+    <span className="flex-1">{label}</span>
+    {hint && <span className="text-[9px] text-stone-600">{hint}</span>}
+  </button>
+);
+
+// Ações de um card do dashboard; fecha ao escolher algo ou clicar fora
+export const ProjectCardMenu: React.FC<ProjectCardMenuProps> = ({ project, onRename, onDuplicate, onChangeRatio, onToggleArchive, onExport, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => { if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false); };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const run = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={menuRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(o => !o)} className={`p-2 rounded-lg transition-colors ${isOpen ? 'text-orange-400 bg-orange-500/10 opacity-100' : 'text-stone-600 hover:text-orange-400 hover:bg-orange-500/10 opacity-0 group-hover:opacity-100'}`} title="Mais ações">
+        <MoreVertical className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-60 p-1.5 bg-[#1c1917] border border-stone-700 rounded-xl shadow-2xl z-40 animate-fade-in">
+          <MenuItem icon={<Pencil className="w-3.5 h-3.5" />} label="Renomear" onClick={run(onRename)} />
+          <MenuItem icon={<CopyPlus className="w-3.5 h-3.5" />} label="Duplicar" hint="com mídia" onClick={run(() => onDuplicate(true))} />
+          <MenuItem icon={<LayoutTemplate className="w-3.5 h-3.5" />} label="Usar como modelo" hint="sem mídia" onClick={run(() => onDuplicate(false))} />
+          <div className="flex items-center gap-2.5 px-3 py-2 text-xs text-stone-300">
+            <Ratio className="w-3.5 h-3.5" />
+            <span className="flex-1">Formato</span>
+            {ASPECT_RATIOS.map(ratio => (
+              <button key={ratio} onClick={run(() => onChangeRatio(ratio))} className={`px-1.5 py-0.5 text-[9px] font-bold rounded border transition-colors ${project.aspectRatio === ratio ? 'border-orange-500 text-orange-400' : 'border-stone-700 text-stone-500 hover:text-white hover:border-stone-500'}`}>
+                {project.aspectRatio === ratio ? <span className="flex items-center gap-0.5"><Check className="w-2.5 h-2.5" />{ratio}</span> : ratio}
+              </button>
+            ))}
+          </div>
+          <MenuItem icon={project.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />} label={project.archived ? 'Desarquivar' : 'Arquivar'} onClick={run(onToggleArchive)} />
+          <MenuItem icon={<FileDown className="w-3.5 h-3.5" />} label="Exportar projeto" onClick={run(onExport)} />
+          <div className="h-px bg-stone-800 my-1" />
+          <MenuItem icon={<Trash2 className="w-3.5 h-3.5" />} label="Excluir" danger onClick={(e) => { setIsOpen(false); onDelete(e); }} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { X, Link2, Unlink, FolderInput, FileUp, Loader2, Check, AlertTriangle, Film } from 'lucide-react';
+import { describeMedia, compareMedia, matchOfflineMedia, MediaMatch, offlineMediaKey } from '../utils/media';
+import { isOnline, MediaInfo, VideoItem } from '../utils/project';
+import { formatBytes } from '../utils/storage';
+import { formatTime } from '../utils/timeline';
+
+interface RelinkMediaModalProps {
+  videos: VideoItem[];
+  onRelink: (matches: Map<string, MediaMatch>) => void; // chave = offlineMediaKey do clipe
+  onClose: () => void;
+}
+
+interface OfflineGroup {
+  key: string;
+  recorded?: MediaInfo;
+  clipName: string;
+  clipCount: number;
+}
+
+// Religa clipes offline: arquivos avulsos ou uma pasta inteira, casados por nome, tamanho, duração e impressão digital
+export const RelinkMediaModal: React.FC<RelinkMediaModalProps> = ({ videos, onRelink, onClose }) => {
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const manualInputRef = useRef<HTMLInputElement>(null);
+  const manualKeyRef = useRef<string | null>(null);
+  const [matches, setMatches] = useState<Map<string, MediaMatch>>(new Map());
+  const [isMatching, setIsMatching] = useState(false);
+
+  const groups: OfflineGroup[] = [];
+  videos.filter(v => !isOnline(v)).forEach(video => {
+    const key = offlineMediaKey(video);
+    const group = groups.find(g => g.key === key);
+    if (group) group.clipCount++;
+    else groups.push({ key, recorded: video.media, clipName: video.name, clipCount: 1 });
+  });
+  const pending = groups.filter(g => !matches.has(g.key));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsMatching(true);
+    try {
+      const found = await matchOfflineMedia(pending, Array.from(files));
+      setMatches(prev => new Map([...prev, ...found]));
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  // Escolha manual de um arquivo para um grupo específico (mostra os mesmos avisos)
+  const handleManualFile = async (file: File | undefined) => {
+    const key = manualKeyRef.current;
+    const group = groups.find(g => g.key === key);
+    if (!file || !group) return;
+    setIsMatching(true);
+    try {
+      const info = await describeMedia(file);
+      setMatches(prev => new Map(prev).set(group.key, { file, info, warnings: compareMedia(group.recorded, info) }));
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-[#0c0a09]/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="bg-[#1c1917] w-full max-w-lg rounded-3xl border border-[#292524] shadow-2xl overflow-hidden relative p-8 flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-500 hover:text-white hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5" /></button>
+        <input ref={filesInputRef} type="file" multiple accept="video/*" className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+        <input ref={(el) => { folderInputRef.current = el; el?.setAttribute('webkitdirectory', ''); }} type="file" multiple className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+        <input ref={manualInputRef} type="file" accept="video/*" className="hidden" onChange={(e) => { handleManualFile(e.target.files?.[0]); e.target.value = ''; }} />
+
+        <div className="w-14 h-14 bg-gradient-to-br from-orange-600 to-red-600 rounded-2xl flex items-center justify-center mb-5 shadow-lg shadow-orange-600/20">
+          <Link2 className="w-7 h-7 text-white" />
+        </div>
+        <h2 className="text-2xl font-black text-white mb-1">Religar Mídia</h2>
+        <p className="text-stone-500 text-sm mb-6">
+          {groups.length === 1 ? 'Um arquivo está offline.' : `${groups.length} arquivos estão offline.`} Selecione os originais ou uma pasta — eles são reconhecidos pelo nome, tamanho, duração e conteúdo.
+        </p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-6">
+          {groups.map(group => {
+            const match = matches.get(group.key);
+            const r = group.recorded;
+            return (
+              <div key={group.key} className={`p-3 rounded-xl border ${match ? (match.warnings.length ? 'border-amber-900/50 bg-amber-950/10' : 'border-green-900/50 bg-green-950/20') : 'border-[#292524] bg-[#0c0a09]'}`}>
+                <div className="flex items-center gap-3">
+                  {match ? <Film className="w-4 h-4 text-stone-500 shrink-0" /> : <Unlink className="w-4 h-4 text-red-500 shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-stone-300 truncate">{r?.fileName ?? group.clipName}</p>
+                    <p className="text-[10px] text-stone-600">
+                      {r ? formatBytes(r.size) : 'sem dados do arquivo'}
+                      {r?.duration !== undefined && <> · {formatTime(r.duration)}</>}
+                      {r?.width ? <> · {r.width}×{r.height}</> : null}
+                      {' · '}{group.clipCount} clipe{group.clipCount > 1 ? 's' : ''}
+                    </p>
+                    {match && <p className="text-[10px] text-green-500 truncate mt-0.5">→ {match.file.name}</p>}
+                  </div>
+                  {match && !match.warnings.length && <Check className="w-4 h-4 text-green-500 shrink-0" />}
+                  <button onClick={() => { manualKeyRef.current = group.key; manualInputRef.current?.click(); }} className="px-2 py-1 text-[10px] font-bold text-stone-400 hover:text-white hover:bg-stone-800 rounded shrink-0">
+                    {match ? 'TROCAR' : 'ESCOLHER'}
+                  </button>
+                </div>
+                {match?.warnings.map(warning => (
+                  <p key={warning} className="text-[10px] text-amber-500 flex items-center gap-1 mt-1 ml-7"><AlertTriangle className="w-3 h-3 shrink-0" /> {warning}</p>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <button onClick={() => filesInputRef.current?.click()} disabled={isMatching} className="py-3 rounded-xl font-bold text-xs bg-stone-800 hover:bg-stone-700 text-stone-200 flex items-center justify-center gap-2 disabled:opacity-50">
+            <FileUp className="w-4 h-4" /> ARQUIVOS
+          </button>
+          <button onClick={() => folderInputRef.current?.click()} disabled={isMatching} className="py-3 rounded-xl font-bold text-xs bg-stone-800 hover:bg-stone-700 text-stone-200 flex items-center justify-center gap-2 disabled:opacity-50">
+            <FolderInput className="w-4 h-4" /> PASTA
+          </button>
+        </div>
+        <button onClick={() => onRelink(matches)} disabled={isMatching || matches.size === 0} className="w-full py-3 rounded-xl font-bold text-sm bg-white text-black hover:bg-orange-500 hover:text-white transition-all disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-black flex items-center justify-center gap-2">
+          {isMatching ? <><Loader2 className="w-4 h-4 animate-spin" /> ANALISANDO...</> : pending.length === 0 ? 'RELIGAR TUDO' : `RELIGAR ${matches.size} DE ${groups.length}`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { X, Loader2, ScanSearch } from 'lucide-react';
+import { MAX_SCENE_THRESHOLD, MIN_SCENE_THRESHOLD } from '../utils/sceneDetection';
+import { formatTime } from '../utils/timeline';
+
+// Sensibilidade = inverso do limiar: à direita acha mais cortes
+export const SceneThresholdSlider: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => (
+  <label className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase">
+    Sensibilidade
+    <input type="range" min={MIN_SCENE_THRESHOLD} max={MAX_SCENE_THRESHOLD} step={0.01} value={MIN_SCENE_THRESHOLD + MAX_SCENE_THRESHOLD - value} onChange={(e) => onChange(MIN_SCENE_THRESHOLD + MAX_SCENE_THRESHOLD - parseFloat(e.target.value))} className="flex-1 h-1 accent-orange-500" />
+    <span className="font-mono text-stone-300 w-8 text-right">{value.toFixed(2)}</span>
+  </label>
+);
+
+interface ScenePanelProps {
+  cuts?: number[];
+  threshold: number;
+  onThresholdChange: (value: number) => void;
+  isDetecting: boolean;
+  onDetect: () => void;
+  onSeek: (time: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Detecção de cenas de um clipe, sobreposta ao card; o resultado aparece como marcadores no scrubber
+export const ScenePanel: React.FC<ScenePanelProps> = ({ cuts, threshold, onThresholdChange, isDetecting, onDetect, onSeek, onClear, onClose }) => (
+  <div className="absolute inset-0 z-10 bg-[#0c0a09]/95 backdrop-blur-sm p-3 flex flex-col gap-2 text-[10px] animate-fade-in" onClick={(e) => e.stopPropagation()}>
+    <div className="flex items-center justify-between">
+      <span className="font-bold text-stone-300 uppercase tracking-wider">Detectar cenas</span>
+      <button onClick={onClose} className="p-0.5 text-stone-500 hover:text-white rounded"><X className="w-3.5 h-3.5" /></button>
+    </div>
+    <SceneThresholdSlider value={threshold} onChange={onThresholdChange} />
+    <div className="flex-1 overflow-y-auto custom-scrollbar">
+      {cuts === undefined ? (
+        <p className="text-stone-500">Os cortes entram como marcadores no scrubber e um frame de cada cena vai para a galeria.</p>
+      ) : cuts.length === 0 ? (
+        <p className="text-stone-500">Nenhum corte encontrado — aumente a sensibilidade.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {cuts.map((cut, i) => (
+            <button key={i} onClick={() => onSeek(cut)} className="px-1.5 py-0.5 font-mono bg-stone-900 border border-stone-800 hover:border-emerald-500 rounded text-stone-300">{formatTime(cut)}</button>
+          ))}
+        </div>
+      )}
+    </div>
+    <div className="flex gap-2">
+      {cuts !== undefined && <button onClick={onClear} className="px-2 py-1.5 rounded-lg font-bold bg-stone-800 hover:bg-stone-700 text-stone-300">LIMPAR</button>}
+      <button onClick={onDetect} disabled={isDetecting} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg font-bold bg-orange-600 hover:bg-orange-500 text-white disabled:opacity-50">
+        {isDetecting ? <><Loader2 className="w-3 h-3 animate-spin" /> DETECTANDO...</> : <><ScanSearch className="w-3 h-3" /> DETECTAR</>}
+      </button>
+    </div>
+  </div>
+);
@@ -1,32 +1,47 @@
-/// <reference lib="dom" />
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Play, Pause, ChevronRight, ChevronLeft, Download, Film, Loader2, X, Upload, Heart, Check, Trash2, Plus, ZoomIn, ZoomOut, Move, Flame, Pencil, Crop, Maximize, Minimize } from 'lucide-react';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-
-interface VideoItem {
-  id: string;
-  file: File;
-  url: string;
-  name: string;
-  crop?: {
-    scale: number;
-    x: number;
-    y: number;
-  };
-}
-
-type AspectRatio = '16:9' | '9:16' | '1:1';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Play, Pause, ChevronRight, ChevronLeft, Download, Film, Loader2, X, Upload, Heart, Check, Trash2, Plus, ZoomIn, ZoomOut, Move, Flame, Pencil, Crop, Maximize, Minimize, Grid3x3, Scan, Crosshair, RotateCcw, Scissors, GripVertical, Copy, MonitorPlay, LayoutGrid, GanttChartSquare, Unlink, Link2, Info, AlertTriangle, EyeOff, Feather, ScanSearch, Layers, StepBack, StepForward } from 'lucide-react';
+import { renderTimeline, RenderStage } from '../utils/videoExport';
+import { runEngineJob } from '../utils/ffmpegEngine';
+import { cancelJob, enqueueJob, ENGINE_LANE } from '../utils/jobQueue';
+import { DEFAULT_TRANSITION_DURATION, formatTime, getClipDuration, getClipRange, layoutTimeline, MAX_TRANSITION_DURATION, MIN_CLIP_DURATION, normalizeTrim, TRANSITION_OPTIONS, TransitionSettings, TransitionType } from '../utils/timeline';
+import { grabFrame, measureFrameRate, probeDuration, waitForPresentedFrame } from '../utils/frames';
+import { getTransitionStyles } from '../utils/transitionStyles';
+import { ProgramMonitor } from './ProgramMonitor';
+import { TimelineTrack } from './TimelineTrack';
+import { MediaInfoPanel } from './MediaInfoPanel';
+import { ScenePanel, SceneThresholdSlider } from './ScenePanel';
+import { BatchExtractModal } from './BatchExtractModal';
+import { AspectRatio, GalleryItemType, isOnline, NewGalleryItem, OnlineVideoItem, VideoItem } from '../utils/project';
+import { formatBytes } from '../utils/storage';
+import { getCaptureOrigin } from '../utils/media';
+import { formatFrameRate, getProbeWarnings, getProjectMediaProfile } from '../utils/mediaProbe';
+import { DEFAULT_FRAME_RATE, formatTimecode, frameToTime, timeToFrame } from '../utils/timecode';
+import { canUseProxy, PROXY_MAX_SIZE } from '../utils/proxy';
+import { DEFAULT_SCENE_THRESHOLD } from '../utils/sceneDetection';
+import { BatchExtractDestination } from '../utils/batchExtract';
+import { aspectRatioValue, captureFrame, clampCrop, CropSettings, DEFAULT_CROP, getCropPreviewStyle, getCropRect, getFitScale, MAX_CROP_SCALE } from '../utils/crop';
 
 interface TimelineEditorProps {
   videos: VideoItem[];
-  setVideos: React.Dispatch<React.SetStateAction<VideoItem[]>>;
-  onAddToGallery: (src: string, type: 'inicio' | 'final' | 'manual', videoName: string) => void;
+  // `label` nomeia o passo no histórico de desfazer
+  setVideos: (update: React.SetStateAction<VideoItem[]>, label?: string) => void;
+  onAddToGallery: (item: NewGalleryItem) => void;
   onAddFiles: (files: FileList | null) => void;
+  onInsertFiles: (index: number, files: FileList | File[]) => void;
   initialAspectRatio: AspectRatio;
   onRenameVideo?: (id: string, newName: string) => void;
   onUpdateVideo?: (id: string, updates: Partial<VideoItem>) => void;
   onTotalDurationChange?: (duration: number) => void;
+  onRelinkMedia?: () => void; // abre o diálogo de religar mídia offline
+  unplayableCount?: number;    // arquivos que o navegador não mostra e ainda não foram convertidos
+  onConvertMedia?: () => void; // abre a oferta de conversão desses arquivos
+  onGenerateProxies?: (videoIds: string[]) => void;
+  detectingSceneIds?: Set<string>; // clipes com detecção de cenas na fila
+  onDetectScenes?: (videoIds: string[], threshold: number) => void;
+  onBatchExtract?: (videoId: string, times: number[], destination: BatchExtractDestination) => void;
+  reveal?: { videoId: string; time: number } | null; // card a mostrar e instante a buscar ao abrir
+  onRevealHandled?: () => void;
+  projectName?: string;
 }
 
 const RESOLUTIONS = {
@@ -35,6 +50,13 @@ const RESOLUTIONS = {
   '1:1': { width: 1080, height: 1080, label: 'Quadrado (1:1)' },
 };
 
+const EXPORT_FPS = 30;
+const NO_WARNINGS: string[] = [];
+// Trilha da fila usada para gerar as miniaturas dos cards
+const THUMBNAIL_LANE = 'miniaturas';
+// Tipo usado no dataTransfer para distinguir reordenação de cards de arquivos do desktop
+const CLIP_DRAG_TYPE = 'application/x-fantastic-films-clips';
+
 // --- Subcomponente: Thumbnail Frame Box ---
 interface FrameThumbnailProps {
   label: string;
@@ -88,128 +110,383 @@ const FrameThumbnail: React.FC<FrameThumbnailProps> = ({ label, image, onSave, o
 
 // --- Subcomponente: Crop Modal ---
 interface CropModalProps {
-  video: VideoItem;
+  video: OnlineVideoItem;
   aspectRatio: AspectRatio;
   onClose: () => void;
-  onSave: (crop: { scale: number, x: number, y: number }) => void;
+  onSave: (crop: CropSettings | undefined) => void;
 }
 
+// Campo numérico em % (X/Y/Zoom) que só confirma o valor no blur/Enter
+const CropNumberField: React.FC<{ label: string; value: number; onCommit: (value: number) => void }> = ({ label, value, onCommit }) => {
+  const [draft, setDraft] = useState(value.toFixed(1));
+  useEffect(() => setDraft(value.toFixed(1)), [value]);
+  const commit = () => {
+    const parsed = parseFloat(draft.replace(',', '.'));
+    if (Number.isFinite(parsed)) onCommit(parsed); else setDraft(value.toFixed(1));
+  };
+  return (
+    <label className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-wider">
+      {label}
+      <input type="text" inputMode="decimal" value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={commit} onKeyDown={(e) => e.key === 'Enter' && commit()} className="w-16 bg-[#0c0a09] border border-stone-800 rounded px-2 py-1 text-xs font-mono text-stone-200 focus:outline-none focus:border-orange-500" />
+      <span className="text-stone-600">%</span>
+    </label>
+  );
+};
+
 const CropModal: React.FC<CropModalProps> = ({ video, aspectRatio, onClose, onSave }) => {
-  const [scale, setScale] = useState(video.crop?.scale || 1);
-  const [pos, setPos] = useState({ x: video.crop?.x || 0, y: video.crop?.y || 0 });
+  const [crop, setCrop] = useState<CropSettings>(video.crop || DEFAULT_CROP);
   const [isDragging, setIsDragging] = useState(false);
-  const dragStart = useRef({ x: 0, y: 0 });
-  const ratioDecimal = aspectRatio === '16:9' ? 16/9 : aspectRatio === '9:16' ? 9/16 : 1;
+  const [sourceSize, setSourceSize] = useState({ width: 0, height: 0 });
+  const [showThirds, setShowThirds] = useState(true);
+  const [showSafeArea, setShowSafeArea] = useState(false);
+  const dragStart = useRef({ clientX: 0, clientY: 0, crop: DEFAULT_CROP });
+  const frameRef = useRef<HTMLDivElement>(null);
+  const ratioDecimal = aspectRatioValue(aspectRatio);
+  const hasSource = sourceSize.width > 0;
+
+  // Cortes antigos/manuais são trazidos para dentro dos limites assim que a origem é conhecida
+  useEffect(() => {
+    if (sourceSize.width > 0) setCrop(c => clampCrop(c, sourceSize.width, sourceSize.height, ratioDecimal));
+  }, [sourceSize.width, sourceSize.height, ratioDecimal]);
+
+  // Toda alteração passa pelo clamp, então o valor salvo é sempre o que se vê
+  const applyCrop = (next: CropSettings) => {
+    setCrop(hasSource ? clampCrop(next, sourceSize.width, sourceSize.height, ratioDecimal) : next);
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsDragging(true);
-    dragStart.current = { x: e.clientX - pos.x, y: e.clientY - pos.y };
+    dragStart.current = { clientX: e.clientX, clientY: e.clientY, crop };
   };
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
-    setPos({ x: e.clientX - dragStart.current.x, y: e.clientY - dragStart.current.y });
+    if (!isDragging || !hasSource || !frameRef.current) return;
+    // 1px no quadro equivale a (largura do recorte / largura do quadro) px na origem
+    const start = dragStart.current.crop;
+    const rect = getCropRect(start, sourceSize.width, sourceSize.height, ratioDecimal);
+    const sourcePxPerScreenPx = rect.width / frameRef.current.getBoundingClientRect().width;
+    applyCrop({
+      ...start,
+      x: start.x - (e.clientX - dragStart.current.clientX) * sourcePxPerScreenPx / sourceSize.width,
+      y: start.y - (e.clientY - dragStart.current.clientY) * sourcePxPerScreenPx / sourceSize.height,
+    });
   };
   const handleMouseUp = () => setIsDragging(false);
 
+  const fitScale = hasSource ? getFitScale(sourceSize.width, sourceSize.height, ratioDecimal) : 1;
+  const previewStyle = hasSource
+    ? getCropPreviewStyle(crop, sourceSize.width, sourceSize.height, ratioDecimal)
+    : { opacity: 0 };
+
+  const presetClass = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-stone-900 border border-stone-800 text-[10px] font-bold text-stone-400 hover:text-white hover:border-orange-500/50 transition-colors";
+  const toggleClass = (active: boolean) => `p-1.5 rounded-lg border transition-colors ${active ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-stone-900 border-stone-800 text-stone-500 hover:text-white'}`;
+
   return (
-    <div className="fixed inset-0 z-[70] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+    <div className="fixed inset-0 z-[70] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={(e) => e.stopPropagation()}>
       <div className="bg-[#1c1917] border border-stone-800 rounded-2xl w-full max-w-4xl p-6 flex flex-col h-[85vh]">
         <div className="flex justify-between items-center mb-4">
            <h3 className="text-xl font-bold text-white flex items-center gap-2"><Crop className="w-5 h-5 text-orange-500" /> Ajustar Corte</h3>
-           <button onClick={onClose} className="p-2 hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5 text-stone-400" /></button>
+           <div className="flex items-center gap-2">
+              <button onClick={() => setShowThirds(v => !v)} className={toggleClass(showThirds)} title="Regra dos terços"><Grid3x3 className="w-4 h-4" /></button>
+              <button onClick={() => setShowSafeArea(v => !v)} className={toggleClass(showSafeArea)} title="Área segura"><Scan className="w-4 h-4" /></button>
+              <button onClick={onClose} className="p-2 hover:bg-stone-800 rounded-full transition-colors"><X className="w-5 h-5 text-stone-400" /></button>
+           </div>
         </div>
         <div className="flex-1 bg-[#0c0a09] rounded-xl border border-stone-800 relative overflow-hidden flex items-center justify-center">
-            <div className="relative overflow-hidden border-2 border-orange-500/50" style={{ aspectRatio: `${ratioDecimal}`, height: '80%' }} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
-               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                  <video src={video.url} className="max-w-none max-h-none" style={{ height: '100%', transform: `translate(${pos.x}px, ${pos.y}px) scale(${scale})`, transformOrigin: 'center center' }} />
-               </div>
+            <div ref={frameRef} className="relative overflow-hidden border-2 border-orange-500/50 cursor-move bg-black" style={{ aspectRatio: `${ratioDecimal}`, height: '80%', maxWidth: '90%' }} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
+               <video src={video.url} className="pointer-events-none" style={previewStyle} onLoadedMetadata={(e) => setSourceSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })} muted />
+               {showThirds && (
+                 <div className="absolute inset-0 pointer-events-none">
+                    <div className="absolute top-0 bottom-0 left-1/3 w-px bg-white/30" />
+                    <div className="absolute top-0 bottom-0 left-2/3 w-px bg-white/30" />
+                    <div className="absolute left-0 right-0 top-1/3 h-px bg-white/30" />
+                    <div className="absolute left-0 right-0 top-2/3 h-px bg-white/30" />
+                 </div>
+               )}
+               {showSafeArea && (
+                 <div className="absolute inset-0 pointer-events-none">
+                    {/* Action safe (90%) e title safe (80%) */}
+                    <div className="absolute inset-[5%] border border-dashed border-orange-400/60" />
+                    <div className="absolute inset-[10%] border border-dashed border-red-500/60" />
+                 </div>
+               )}
             </div>
         </div>
-        <div className="mt-6 flex items-center gap-6">
-            <input type="range" min={1} max={3} step={0.01} value={scale} onChange={(e) => setScale(parseFloat(e.target.value))} className="flex-1 h-1.5 bg-stone-700 rounded-full accent-orange-500" />
-            <button onClick={() => onSave({ scale, x: pos.x, y: pos.y })} className="px-6 py-2 rounded-lg bg-orange-600 text-white text-xs font-bold shadow-lg">APLICAR</button>
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button onClick={() => applyCrop({ ...crop, x: 0.5, y: 0.5 })} className={presetClass}><Crosshair className="w-3.5 h-3.5" /> CENTRALIZAR</button>
+            <button onClick={() => applyCrop({ scale: fitScale, x: 0.5, y: 0.5 })} className={presetClass}><Minimize className="w-3.5 h-3.5" /> AJUSTAR</button>
+            <button onClick={() => applyCrop(DEFAULT_CROP)} className={presetClass}><Maximize className="w-3.5 h-3.5" /> PREENCHER</button>
+            <button onClick={() => onSave(undefined)} className={presetClass} title="Remove o corte (vídeo inteiro com barras)"><RotateCcw className="w-3.5 h-3.5" /> REDEFINIR</button>
+            <div className="flex-1" />
+            <CropNumberField label="X" value={crop.x * 100} onCommit={(v) => applyCrop({ ...crop, x: v / 100 })} />
+            <CropNumberField label="Y" value={crop.y * 100} onCommit={(v) => applyCrop({ ...crop, y: v / 100 })} />
+            <CropNumberField label="Zoom" value={crop.scale * 100} onCommit={(v) => applyCrop({ ...crop, scale: v / 100 })} />
+        </div>
+        <div className="mt-4 flex items-center gap-6">
+            <input type="range" min={fitScale} max={MAX_CROP_SCALE} step={0.01} value={crop.scale} onChange={(e) => applyCrop({ ...crop, scale: parseFloat(e.target.value) })} className="flex-1 h-1.5 bg-stone-700 rounded-full accent-orange-500" />
+            <button onClick={() => onSave(crop)} disabled={!hasSource} className="px-6 py-2 rounded-lg bg-orange-600 text-white text-xs font-bold shadow-lg disabled:opacity-50">APLICAR</button>
         </div>
       </div>
     </div>
   );
 };
 
+// --- Subcomponente: Barra de Trim (scrubber com alças de entrada/saída) ---
+interface TrimBarProps {
+    duration: number;
+    currentTime: number;
+    inPoint: number;
+    outPoint: number;
+    onSeek: (time: number) => void;
+    onTrimChange: (inPoint: number, outPoint: number) => void;
+    markers?: number[]; // cortes de cena detectados
+    step: number;       // duração de um frame
+}
+
+const TrimBar: React.FC<TrimBarProps> = ({ duration, currentTime, inPoint, outPoint, onSeek, onTrimChange, markers, step }) => {
+    const trackRef = useRef<HTMLDivElement>(null);
+    // Durante o arraste o trim fica local; só é salvo no pointerup (uma alteração por gesto)
+    const [draft, setDraft] = useState<{ inPoint: number; outPoint: number } | null>(null);
+    const range = draft || { inPoint, outPoint };
+    const toPercent = (time: number) => duration > 0 ? (time / duration) * 100 : 0;
+
+    const timeFromPointer = (clientX: number) => {
+        const rect = trackRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return 0;
+        return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+    };
+
+    const startHandleDrag = (handle: 'in' | 'out') => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        let latest = { inPoint, outPoint };
+        const onMove = (ev: PointerEvent) => {
+            const time = timeFromPointer(ev.clientX);
+            latest = handle === 'in'
+                ? { inPoint: Math.min(time, latest.outPoint - MIN_CLIP_DURATION), outPoint: latest.outPoint }
+                : { inPoint: latest.inPoint, outPoint: Math.max(time, latest.inPoint + MIN_CLIP_DURATION) };
+            setDraft(latest);
+            onSeek(handle === 'in' ? latest.inPoint : latest.outPoint);
+        };
+        const onUp = () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            setDraft(null);
+            onTrimChange(latest.inPoint, latest.outPoint);
+        };
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+    };
+
+    return (
+        <div ref={trackRef} className="relative w-full h-4 flex items-center">
+            <div className="absolute inset-x-0 h-1 bg-stone-700 rounded-full" />
+            <div className="absolute h-1 bg-orange-500/60" style={{ left: `${toPercent(range.inPoint)}%`, width: `${toPercent(range.outPoint - range.inPoint)}%` }} />
+            <input type="range" min={0} max={duration || 100} step={step} value={currentTime} onChange={(e) => onSeek(parseFloat(e.target.value))} className="absolute inset-x-0 w-full h-1 opacity-0 cursor-pointer" />
+            {markers?.map((time, i) => (
+                <button key={i} onClick={() => onSeek(time)} className="absolute z-[5] w-1 h-3 -ml-0.5 bg-emerald-500/80 hover:bg-emerald-400 rounded-sm" style={{ left: `${toPercent(time)}%` }} title={`Corte ${formatTime(time)}`} />
+            ))}
+            <div className="absolute w-0.5 h-3 bg-white pointer-events-none" style={{ left: `${toPercent(currentTime)}%` }} />
+            <div onPointerDown={startHandleDrag('in')} className="absolute z-10 w-1.5 h-4 -ml-0.5 bg-orange-500 rounded-sm cursor-ew-resize hover:bg-orange-400" style={{ left: `${toPercent(range.inPoint)}%` }} title={`Entrada ${formatTime(range.inPoint)}`} />
+            <div onPointerDown={startHandleDrag('out')} className="absolute z-10 w-1.5 h-4 -ml-1 bg-orange-500 rounded-sm cursor-ew-resize hover:bg-orange-400" style={{ left: `${toPercent(range.outPoint)}%` }} title={`Saída ${formatTime(range.outPoint)}`} />
+        </div>
+    );
+};
+
 // --- Subcomponente: Card de Vídeo ---
 interface VideoCardProps {
-    video: VideoItem;
+    video: OnlineVideoItem;
     index: number;
     total: number;
     onMoveLeft: () => void;
     onMoveRight: () => void;
     onDelete: () => void;
-    onAddToGallery: (src: string, type: 'inicio' | 'final' | 'manual', videoName: string) => void;
+    onAddToGallery: (item: NewGalleryItem) => void;
     onRename?: (id: string, newName: string) => void;
     onUpdateVideo?: (id: string, updates: Partial<VideoItem>) => void;
     onDurationLoad?: (duration: number) => void;
+    onOpenCrop: () => void;
+    onOpenBatchExtract?: () => void;
+    isSelected: boolean;
+    onSelect: (e: React.MouseEvent) => void;
+    onDragStart: (e: React.DragEvent) => void;
+    isOnProgram?: boolean; // clipe que está no ar no monitor de programa
     aspectRatio: AspectRatio;
+    mediaWarnings: string[]; // fps/resolução fora do padrão do projeto, origem menor que a saída
+    previewUrl: string;      // proxy ou a própria mídia; capturas para a galeria sempre vêm de `video.url`
+    onGenerateProxy?: () => void;
+    sceneThreshold: number;
+    onSceneThresholdChange: (value: number) => void;
+    isDetectingScenes: boolean;
+    onDetectScenes?: () => void;
+    pendingSeek?: number; // instante pedido de fora ("mostrar na timeline"), aplicado quando o vídeo carrega
+    onSeekHandled?: () => void;
 }
 
-const VideoCard: React.FC<VideoCardProps> = ({ video, index, total, onMoveLeft, onMoveRight, onDelete, onAddToGallery, onRename, onDurationLoad, onUpdateVideo, aspectRatio }) => {
+const VideoCard: React.FC<VideoCardProps> = ({ video, index, total, onMoveLeft, onMoveRight, onDelete, onAddToGallery, onRename, onDurationLoad, onUpdateVideo, onOpenCrop, onOpenBatchExtract, isSelected, onSelect, onDragStart, isOnProgram, aspectRatio, mediaWarnings, previewUrl, onGenerateProxy, sceneThreshold, onSceneThresholdChange, isDetectingScenes, onDetectScenes, pendingSeek, onSeekHandled }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
+    const cardRef = useRef<HTMLDivElement>(null);
     const [duration, setDuration] = useState(0);
     const [currentTime, setCurrentTime] = useState(0);
     const [isPlaying, setIsPlaying] = useState(false);
     const [isEditingName, setIsEditingName] = useState(false);
     const [tempName, setTempName] = useState(video.name);
-    const [showCropModal, setShowCropModal] = useState(false);
+    const [sourceSize, setSourceSize] = useState({ width: 0, height: 0 });
     const [startFrameImg, setStartFrameImg] = useState<string | null>(null);
     const [endFrameImg, setEndFrameImg] = useState<string | null>(null);
     const [currentFrameImg, setCurrentFrameImg] = useState<string | null>(null); 
     const [loadingThumbs, setLoadingThumbs] = useState(true);
+    const [thumbTimes, setThumbTimes] = useState({ start: 0, end: 0 });
+    const [showInfo, setShowInfo] = useState(false);
+    const [showScenes, setShowScenes] = useState(false);
+    // fps medido na reprodução, quando a análise do FFmpeg não traz
+    const [measuredFps, setMeasuredFps] = useState<number>();
+    const seekIdRef = useRef(0);
+    const isProxyPreview = previewUrl !== video.url;
+    const probedFps = video.media?.probe?.frameRate;
+    const frameRate = probedFps || measuredFps || DEFAULT_FRAME_RATE;
+    const currentFrame = timeToFrame(currentTime, frameRate);
+    const lastFrame = Math.max(0, Math.ceil(duration * frameRate) - 1);
+
+    const ratioDecimal = aspectRatioValue(aspectRatio);
+    const trimRange = getClipRange(video, duration);
+    const isTrimmed = video.inPoint !== undefined || video.outPoint !== undefined;
 
     const updateCurrentFrame = useCallback(() => {
         const vid = videoRef.current;
-        if (!vid) return;
-        const canvas = document.createElement('canvas');
-        canvas.width = vid.videoWidth;
-        canvas.height = vid.videoHeight;
-        canvas.getContext('2d')?.drawImage(vid, 0, 0, canvas.width, canvas.height);
-        setCurrentFrameImg(canvas.toDataURL('image/png'));
-    }, []);
+        if (!vid || !vid.videoWidth) return;
+        setCurrentFrameImg(captureFrame(vid, video.crop, ratioDecimal));
+    }, [video.crop, ratioDecimal]);
 
+    // Recaptura o frame atual quando o corte muda
+    useEffect(() => { updateCurrentFrame(); }, [updateCurrentFrame]);
+
+    // Miniaturas passam pela fila (uma de cada vez, sem disputar o decodificador com o card em uso)
     useEffect(() => {
-        let isMounted = true;
-        const generateThumbs = async () => {
-            setLoadingThumbs(true);
-            try {
+        setLoadingThumbs(true);
+        const jobId = enqueueJob({
+            label: `Miniaturas de ${video.name}`,
+            lane: THUMBNAIL_LANE,
+            quiet: true,
+            run: async ({ signal }) => {
                 const tempVideo = document.createElement('video');
-                tempVideo.src = video.url;
-                tempVideo.crossOrigin = "anonymous";
-                tempVideo.muted = true;
-                await new Promise((resolve) => tempVideo.onloadedmetadata = () => resolve(true));
-                if (!isMounted) return;
-                const extract = async (time: number): Promise<string> => {
-                    return new Promise((resolve) => {
-                        tempVideo.currentTime = time;
-                        tempVideo.onseeked = () => {
-                            const canvas = document.createElement('canvas');
-                            canvas.width = tempVideo.videoWidth; canvas.height = tempVideo.videoHeight;
-                            canvas.getContext('2d')?.drawImage(tempVideo, 0, 0);
-                            resolve(canvas.toDataURL('image/png'));
-                        };
+                try {
+                    tempVideo.src = previewUrl;
+                    tempVideo.crossOrigin = "anonymous";
+                    tempVideo.muted = true;
+                    // Erro de leitura ou cancelamento encerram a tarefa, sem prender a trilha das miniaturas
+                    const failed = new Promise<never>((_, reject) => {
+                        tempVideo.onerror = () => reject(new Error(`Não foi possível ler "${video.name}".`));
+                        signal.addEventListener('abort', () => reject(new Error('Tarefa cancelada.')), { once: true });
                     });
-                };
-                setStartFrameImg(await extract(0.1));
-                setEndFrameImg(await extract(Math.max(0, tempVideo.duration - 0.1)));
-            } finally { if (isMounted) setLoadingThumbs(false); }
-        };
-        generateThumbs();
-        return () => { isMounted = false; };
-    }, [video.url]);
+                    failed.catch(() => {});
+                    await Promise.race([new Promise((resolve) => tempVideo.onloadedmetadata = () => resolve(true)), failed]);
+                    const extract = async (time: number): Promise<string> => {
+                        return Promise.race([new Promise<string>((resolve) => {
+                            tempVideo.currentTime = time;
+                            tempVideo.onseeked = () => resolve(captureFrame(tempVideo, video.crop, ratioDecimal));
+                        }), failed]);
+                    };
+                    // Sem trim mantém a margem de 0.1s nas bordas; com trim usa os pontos exatos (saída ≈ 1 frame antes)
+                    const { start, end } = getClipRange(video, tempVideo.duration);
+                    const times = { start: video.inPoint !== undefined ? start : Math.min(0.1, end), end: Math.max(start, end - (video.outPoint !== undefined ? 1 / 30 : 0.1)) };
+                    const startImg = await extract(times.start);
+                    const endImg = await extract(times.end);
+                    if (signal.aborted) return;
+                    setStartFrameImg(startImg);
+                    setEndFrameImg(endImg);
+                    setThumbTimes(times);
+                    if (!video.media?.probe?.frameRate) {
+                        tempVideo.currentTime = times.start;
+                        const fps = await Promise.race([measureFrameRate(tempVideo), failed]);
+                        if (fps && !signal.aborted) setMeasuredFps(fps);
+                    }
+                } finally {
+                    tempVideo.removeAttribute('src');
+                    if (!signal.aborted) setLoadingThumbs(false);
+                }
+            }
+        });
+        return () => cancelJob(jobId);
+    }, [previewUrl, video.crop, video.inPoint, video.outPoint, ratioDecimal]);
 
-    const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const time = parseFloat(e.target.value);
-        if(videoRef.current) { videoRef.current.currentTime = time; setCurrentTime(time); updateCurrentFrame(); }
+    // Com proxy na prévia, o frame salvo ou baixado é lido de novo da mídia original
+    const captureOriginal = async (time: number, previewImage: string | null): Promise<string | null> => {
+        if (!isProxyPreview) return previewImage;
+        try {
+            return await grabFrame(video.url, () => time, video.crop, ratioDecimal);
+        } catch (error) {
+            console.error("Erro ao capturar frame do original:", error);
+            alert("Não foi possível capturar o frame da mídia original.");
+            return null;
+        }
+    };
+    const saveFrame = async (time: number, previewImage: string | null, type: GalleryItemType) => {
+        const src = await captureOriginal(time, previewImage);
+        if (src) onAddToGallery({ src, type, videoName: video.name, ...getCaptureOrigin(video, time, frameRate) });
+    };
+    const openFrame = async (time: number, previewImage: string | null) => {
+        if (!isProxyPreview) { if (previewImage) window.open(previewImage); return; }
+        // Depois da espera o navegador bloquearia o pop-up: o frame do original é baixado
+        const src = await captureOriginal(time, previewImage);
+        if (!src) return;
+        const link = document.createElement('a');
+        link.href = src;
+        link.download = `${video.name.replace(/\.[^.]+$/, '')}_${time.toFixed(2)}s.png`;
+        link.click();
+    };
+
+    // O instante mostrado e a miniatura "Atual" acompanham o frame que de fato chegou à tela
+    const seekTo = (time: number) => {
+        const vid = videoRef.current;
+        if (!vid) return;
+        const seekId = ++seekIdRef.current;
+        vid.currentTime = time;
+        setCurrentTime(time);
+        waitForPresentedFrame(vid).then(mediaTime => {
+            if (seekId !== seekIdRef.current) return; // outra busca já começou
+            setCurrentTime(mediaTime);
+            updateCurrentFrame();
+        });
+    };
+
+    useEffect(() => {
+        if (pendingSeek === undefined || duration === 0) return;
+        seekTo(pendingSeek);
+        cardRef.current?.focus({ preventScroll: true });
+        onSeekHandled?.();
+    }, [pendingSeek, duration]);
+
+    const stepFrames = (delta: number) => {
+        if (!videoRef.current || duration === 0) return;
+        videoRef.current.pause();
+        seekTo(frameToTime(Math.min(lastFrame, Math.max(0, currentFrame + delta)), frameRate));
+    };
+
+    // Setas andam um frame (com Shift, dez) quando o card está em foco
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') || (e.target as HTMLElement).closest('input')) return;
+        e.preventDefault();
+        stepFrames((e.key === 'ArrowLeft' ? -1 : 1) * (e.shiftKey ? 10 : 1));
+    };
+
+    const setTrim = (inPoint: number, outPoint: number) => {
+        onUpdateVideo?.(video.id, normalizeTrim(inPoint, outPoint, duration));
+    };
+
+    // A reprodução respeita o trecho: para no ponto de saída
+    const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+        const vid = e.currentTarget;
+        if (!vid.paused && isTrimmed && vid.currentTime >= trimRange.end) {
+            vid.pause();
+            vid.currentTime = trimRange.end;
+        }
+        setCurrentTime(vid.currentTime);
     };
 
     return (
-        <div className="flex flex-col items-center gap-2 relative mx-2">
+        <div className={`flex flex-col items-center gap-2 relative mx-2 p-1 rounded-2xl transition-shadow ${isSelected ? 'ring-2 ring-orange-500 shadow-[0_0_20px_rgba(249,115,22,0.25)]' : isOnProgram ? 'ring-2 ring-red-500/70 shadow-[0_0_20px_rgba(239,68,68,0.3)]' : ''} outline-none`} ref={cardRef} tabIndex={0} onKeyDown={handleKeyDown} onClick={(e) => { if (!(e.target as HTMLElement).closest('button, input')) onSelect(e); }}>
             <div className="flex items-center justify-between w-full h-8 px-1">
+                <div draggable onDragStart={onDragStart} className="p-0.5 text-stone-600 hover:text-orange-500 cursor-grab active:cursor-grabbing" title="Arraste para reordenar"><GripVertical className="w-3.5 h-3.5" /></div>
                 <div className="flex items-center gap-1 bg-stone-900 p-1 rounded border border-stone-800">
                     <button onClick={onMoveLeft} disabled={index === 0} className="p-0.5 disabled:opacity-20"><ChevronLeft className="w-3 h-3"/></button>
                     <span className="text-[10px] font-bold text-stone-400">{index + 1}</span>
@@ -218,54 +495,498 @@ const VideoCard: React.FC<VideoCardProps> = ({ video, index, total, onMoveLeft,
                 <div className="flex-1 text-center truncate px-2">
                     <span className="text-xs font-bold text-stone-300">{video.name}</span>
                 </div>
+                <button onClick={() => setShowInfo(s => !s)} className={`p-1 rounded hover:bg-orange-500/10 ${mediaWarnings.length > 0 ? 'text-amber-500' : showInfo ? 'text-orange-500' : 'text-stone-500'}`} title={mediaWarnings.length > 0 ? mediaWarnings.join('\n') : 'Informações da mídia'}>
+                    {mediaWarnings.length > 0 ? <AlertTriangle className="w-3.5 h-3.5" /> : <Info className="w-3.5 h-3.5" />}
+                </button>
+                {onDetectScenes && (
+                    <button onClick={() => setShowScenes(s => !s)} className={`p-1 rounded hover:bg-orange-500/10 ${isDetectingScenes || showScenes ? 'text-orange-500' : video.sceneCuts ? 'text-emerald-500' : 'text-stone-500'}`} title={video.sceneCuts ? `${video.sceneCuts.length + 1} cenas detectadas` : 'Detectar cenas'}>
+                        {isDetectingScenes ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ScanSearch className="w-3.5 h-3.5" />}
+                    </button>
+                )}
+                {onOpenBatchExtract && <button onClick={onOpenBatchExtract} className="p-1 rounded text-stone-500 hover:bg-orange-500/10" title="Extrair frames em lote"><Layers className="w-3.5 h-3.5" /></button>}
+                <button onClick={onOpenCrop} className={`p-1 rounded hover:bg-orange-500/10 ${video.crop ? 'text-orange-500' : 'text-stone-500'}`} title="Ajustar Corte"><Crop className="w-3.5 h-3.5" /></button>
                 <button onClick={onDelete} className="p-1 text-red-500 hover:bg-red-500/10 rounded"><Trash2 className="w-3.5 h-3.5" /></button>
             </div>
             <div className="w-72 aspect-video bg-black rounded-xl border border-stone-800 relative group overflow-hidden">
-                <video ref={videoRef} src={video.url} className="w-full h-full object-contain" onLoadedMetadata={(e) => { setDuration(e.currentTarget.duration); onDurationLoad?.(e.currentTarget.duration); }} onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)} crossOrigin="anonymous" />
-                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-2">
-                    <input type="range" min={0} max={duration || 100} step="0.1" value={currentTime} onChange={handleSeek} className="w-full h-1 accent-orange-500" />
+                {/* Com corte, o card mostra o quadro do projeto enquadrado como na exportação */}
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <div className="relative overflow-hidden max-w-full max-h-full" style={video.crop ? { aspectRatio: `${ratioDecimal}`, height: ratioDecimal < 16/9 ? '100%' : 'auto', width: ratioDecimal < 16/9 ? 'auto' : '100%' } : { width: '100%', height: '100%' }}>
+                        <video ref={videoRef} src={previewUrl} className={video.crop ? '' : 'w-full h-full object-contain'} style={video.crop && sourceSize.width > 0 ? getCropPreviewStyle(video.crop, sourceSize.width, sourceSize.height, ratioDecimal) : undefined} onLoadedMetadata={(e) => { setDuration(e.currentTarget.duration); setSourceSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight }); onDurationLoad?.(e.currentTarget.duration); }} onTimeUpdate={handleTimeUpdate} crossOrigin="anonymous" />
+                    </div>
                 </div>
+                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end gap-1 p-2">
+                    <div className="flex items-center justify-between gap-1">
+                        <button onClick={() => setTrim(currentTime, trimRange.end)} disabled={duration === 0} className="px-1.5 py-0.5 bg-black/60 border border-stone-700 hover:border-orange-500 rounded text-[9px] font-bold text-stone-300" title="Definir entrada na posição atual">[ IN</button>
+                        <span className="text-[9px] font-mono text-stone-300 bg-black/60 px-1.5 py-0.5 rounded">{formatTime(trimRange.start)} – {formatTime(trimRange.end)}</span>
+                        <button onClick={() => setTrim(trimRange.start, currentTime)} disabled={duration === 0} className="px-1.5 py-0.5 bg-black/60 border border-stone-700 hover:border-orange-500 rounded text-[9px] font-bold text-stone-300" title="Definir saída na posição atual">OUT ]</button>
+                    </div>
+                    <div className="flex items-center justify-center gap-1">
+                        <button onClick={() => stepFrames(-1)} disabled={duration === 0 || currentFrame === 0} className="p-0.5 bg-black/60 border border-stone-700 hover:border-orange-500 rounded text-stone-300 disabled:opacity-30" title="Frame anterior (←)"><StepBack className="w-3 h-3" /></button>
+                        <span className="text-[9px] font-mono text-stone-300 bg-black/60 px-1.5 py-0.5 rounded" title={`${formatFrameRate(frameRate)}${probedFps ? '' : measuredFps ? ' (medido na reprodução)' : ' (desconhecido)'}`}>{formatTimecode(currentFrame, frameRate)} · #{currentFrame}</span>
+                        <button onClick={() => stepFrames(1)} disabled={duration === 0 || currentFrame >= lastFrame} className="p-0.5 bg-black/60 border border-stone-700 hover:border-orange-500 rounded text-stone-300 disabled:opacity-30" title="Próximo frame (→)"><StepForward className="w-3 h-3" /></button>
+                    </div>
+                    <TrimBar duration={duration} currentTime={currentTime} inPoint={trimRange.start} outPoint={trimRange.end} onSeek={seekTo} onTrimChange={setTrim} markers={video.sceneCuts} step={1 / frameRate} />
+                </div>
+                {isProxyPreview && <span className="absolute top-2 right-2 px-1.5 py-0.5 bg-black/70 border border-stone-700 rounded text-[8px] font-bold tracking-wider text-stone-400 pointer-events-none">PROXY</span>}
+                {showInfo && <MediaInfoPanel media={video.media} warnings={mediaWarnings} proxyFile={video.proxyFile} onGenerateProxy={onGenerateProxy} onClose={() => setShowInfo(false)} />}
+                {showScenes && onDetectScenes && <ScenePanel cuts={video.sceneCuts} threshold={sceneThreshold} onThresholdChange={onSceneThresholdChange} isDetecting={isDetectingScenes} onDetect={onDetectScenes} onSeek={seekTo} onClear={() => onUpdateVideo?.(video.id, { sceneCuts: undefined })} onClose={() => setShowScenes(false)} />}
+                {isTrimmed && (
+                    <button onClick={() => onUpdateVideo?.(video.id, { inPoint: undefined, outPoint: undefined })} className="absolute top-2 left-2 flex items-center gap-1 px-1.5 py-0.5 bg-orange-600/90 rounded text-[9px] font-bold text-white opacity-90 hover:bg-red-600" title="Remover trim">
+                        <Scissors className="w-2.5 h-2.5" /> {formatTime(trimRange.end - trimRange.start)}
+                    </button>
+                )}
             </div>
             <div className="grid grid-cols-3 gap-2 w-72 mt-2">
-                <FrameThumbnail label="Início" image={startFrameImg} isLoading={loadingThumbs} onSave={() => startFrameImg && onAddToGallery(startFrameImg, 'inicio', video.name)} onDownload={() => startFrameImg && window.open(startFrameImg)} />
-                <FrameThumbnail label="Atual" image={currentFrameImg} isLoading={!currentFrameImg} highlight={true} onSave={() => currentFrameImg && onAddToGallery(currentFrameImg, 'manual', video.name)} onDownload={() => currentFrameImg && window.open(currentFrameImg)} />
-                <FrameThumbnail label="Final" image={endFrameImg} isLoading={loadingThumbs} onSave={() => endFrameImg && onAddToGallery(endFrameImg, 'final', video.name)} onDownload={() => endFrameImg && window.open(endFrameImg)} />
+                <FrameThumbnail label="Início" image={startFrameImg} isLoading={loadingThumbs} onSave={() => startFrameImg && saveFrame(thumbTimes.start, startFrameImg, 'inicio')} onDownload={() => startFrameImg && openFrame(thumbTimes.start, startFrameImg)} />
+                <FrameThumbnail label="Atual" image={currentFrameImg} isLoading={!currentFrameImg} highlight={true} onSave={() => currentFrameImg && saveFrame(frameToTime(currentFrame, frameRate), currentFrameImg, 'manual')} onDownload={() => currentFrameImg && openFrame(frameToTime(currentFrame, frameRate), currentFrameImg)} />
+                <FrameThumbnail label="Final" image={endFrameImg} isLoading={loadingThumbs} onSave={() => endFrameImg && saveFrame(thumbTimes.end, endFrameImg, 'final')} onDownload={() => endFrameImg && openFrame(thumbTimes.end, endFrameImg)} />
+            </div>
+        </div>
+    );
+};
+
+// --- Subcomponente: Card de Clipe Offline ---
+// Mantém posição, trims e transição do clipe; só a mídia precisa ser religada
+interface OfflineVideoCardProps {
+    video: VideoItem;
+    index: number;
+    total: number;
+    onMoveLeft: () => void;
+    onMoveRight: () => void;
+    onDelete: () => void;
+    onRelink?: () => void;
+    isSelected: boolean;
+    onSelect: (e: React.MouseEvent) => void;
+    onDragStart: (e: React.DragEvent) => void;
+}
+
+const OfflineVideoCard: React.FC<OfflineVideoCardProps> = ({ video, index, total, onMoveLeft, onMoveRight, onDelete, onRelink, isSelected, onSelect, onDragStart }) => {
+    const media = video.media;
+    return (
+        <div className={`flex flex-col items-center gap-2 relative mx-2 p-1 rounded-2xl transition-shadow ${isSelected ? 'ring-2 ring-orange-500 shadow-[0_0_20px_rgba(249,115,22,0.25)]' : ''}`} onClick={(e) => { if (!(e.target as HTMLElement).closest('button, input')) onSelect(e); }}>
+            <div className="flex items-center justify-between w-full h-8 px-1">
+                <div draggable onDragStart={onDragStart} className="p-0.5 text-stone-600 hover:text-orange-500 cursor-grab active:cursor-grabbing" title="Arraste para reordenar"><GripVertical className="w-3.5 h-3.5" /></div>
+                <div className="flex items-center gap-1 bg-stone-900 p-1 rounded border border-stone-800">
+                    <button onClick={onMoveLeft} disabled={index === 0} className="p-0.5 disabled:opacity-20"><ChevronLeft className="w-3 h-3"/></button>
+                    <span className="text-[10px] font-bold text-stone-400">{index + 1}</span>
+                    <button onClick={onMoveRight} disabled={index === total - 1} className="p-0.5 disabled:opacity-20"><ChevronRight className="w-3 h-3"/></button>
+                </div>
+                <div className="flex-1 text-center truncate px-2">
+                    <span className="text-xs font-bold text-stone-500">{video.name}</span>
+                </div>
+                <button onClick={onDelete} className="p-1 text-red-500 hover:bg-red-500/10 rounded"><Trash2 className="w-3.5 h-3.5" /></button>
             </div>
-            {showCropModal && <CropModal video={video} aspectRatio={aspectRatio} onClose={() => setShowCropModal(false)} onSave={(crop) => { onUpdateVideo?.(video.id, { crop }); setShowCropModal(false); }} />}
+            <div className="w-72 aspect-video bg-red-950/10 rounded-xl border-2 border-dashed border-red-900/60 flex flex-col items-center justify-center gap-2 px-4 text-center">
+                <Unlink className="w-6 h-6 text-red-500" />
+                <span className="text-[10px] font-bold text-red-400 tracking-widest">MÍDIA OFFLINE</span>
+                <span className="text-[10px] text-stone-500 truncate max-w-full" title={media?.fileName}>
+                    {media ? `${media.fileName} · ${formatBytes(media.size)}` : 'Arquivo original desconhecido'}
+                </span>
+                {onRelink && (
+                    <button onClick={onRelink} className="mt-1 flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold text-white bg-stone-800 hover:bg-orange-600 rounded-lg transition-colors">
+                        <Link2 className="w-3.5 h-3.5" /> RELIGAR
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- Subcomponente: Prévia de Transição (A/B) ---
+const PREVIEW_HOLD = 0.5; // segundos parados em A e em B antes/depois da transição
+
+const TransitionPreview: React.FC<{ from: string | null; to: string | null; transition: TransitionSettings }> = ({ from, to, transition }) => {
+    const [progress, setProgress] = useState(0);
+
+    useEffect(() => {
+        const length = transition.type === 'cut' ? 0.05 : transition.duration;
+        const cycle = PREVIEW_HOLD * 2 + length;
+        let frame = 0;
+        const startedAt = performance.now();
+        const tick = (now: number) => {
+            const t = ((now - startedAt) / 1000) % cycle;
+            setProgress(Math.min(1, Math.max(0, (t - PREVIEW_HOLD) / length)));
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [transition.type, transition.duration]);
+
+    if (!from || !to) {
+        return <div className="w-full aspect-video rounded-lg bg-stone-900 flex items-center justify-center"><Loader2 className="w-4 h-4 text-stone-600 animate-spin" /></div>;
+    }
+
+    const { from: fromStyle, to: toStyle, overlay } = getTransitionStyles(transition.type, progress);
+
+    return (
+        <div className="relative w-full aspect-video rounded-lg overflow-hidden bg-black border border-stone-800">
+            <img src={from} className="absolute inset-0 w-full h-full object-contain" style={fromStyle} alt="Saída" />
+            <img src={to} className="absolute inset-0 w-full h-full object-contain" style={toStyle} alt="Entrada" />
+            {overlay && <div className="absolute inset-0" style={overlay} />}
         </div>
     );
 };
 
 // --- Subcomponente: Gap de Transição ---
-const TransitionGap: React.FC<{ onInsertVideo: (file: File) => void }> = ({ onInsertVideo }) => {
+interface TransitionGapProps {
+    fromVideo: VideoItem;
+    toVideo: VideoItem;
+    aspectRatio: AspectRatio;
+    onChangeTransition: (transition: TransitionSettings | undefined) => void;
+    onInsertVideo: (file: File) => void;
+}
+
+const TransitionGap: React.FC<TransitionGapProps> = ({ fromVideo, toVideo, aspectRatio, onChangeTransition, onInsertVideo }) => {
     const inputRef = useRef<HTMLInputElement>(null);
+    const popoverRef = useRef<HTMLDivElement>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const [frames, setFrames] = useState<{ from: string | null; to: string | null }>({ from: null, to: null });
+    const transition = fromVideo.transition || { type: 'cut' as const, duration: DEFAULT_TRANSITION_DURATION };
+    const hasTransition = transition.type !== 'cut';
+
+    // Último frame do clipe que sai e primeiro do que entra, já com trim e corte
+    useEffect(() => {
+        if (!isOpen || !fromVideo.url || !toVideo.url) return;
+        let isMounted = true;
+        const ratio = aspectRatioValue(aspectRatio);
+        Promise.all([
+            grabFrame(fromVideo.url, d => getClipRange(fromVideo, d).end - 1 / 30, fromVideo.crop, ratio),
+            grabFrame(toVideo.url, d => getClipRange(toVideo, d).start, toVideo.crop, ratio),
+        ]).then(([from, to]) => { if (isMounted) setFrames({ from, to }); }).catch(() => {});
+        return () => { isMounted = false; };
+    }, [isOpen, fromVideo.url, fromVideo.crop, fromVideo.inPoint, fromVideo.outPoint, toVideo.url, toVideo.crop, toVideo.inPoint, toVideo.outPoint, aspectRatio]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleOutside = (e: MouseEvent) => {
+            if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        // Captura: os cards param a propagação do mousedown por causa do pan do canvas
+        document.addEventListener('mousedown', handleOutside, true);
+        return () => document.removeEventListener('mousedown', handleOutside, true);
+    }, [isOpen]);
+
+    const selectType = (type: TransitionType) => {
+        onChangeTransition(type === 'cut' ? undefined : { type, duration: transition.duration });
+    };
+
     return (
-        <div className="flex flex-col items-center justify-center mx-1 group cursor-pointer py-10" onClick={() => inputRef.current?.click()}>
-            <div className="w-0.5 h-12 bg-stone-800 group-hover:bg-orange-500 transition-colors"></div>
-            <div className="absolute w-5 h-5 bg-stone-900 border border-stone-700 rounded-full flex items-center justify-center group-hover:border-orange-500"><Plus className="w-3 h-3 text-stone-600 group-hover:text-orange-500" /></div>
+        <div className="relative flex flex-col items-center justify-center mx-1 group py-10">
+            <div className={`w-0.5 h-12 transition-colors ${hasTransition ? 'bg-orange-500' : 'bg-stone-800 group-hover:bg-orange-500'}`}></div>
+            <button onClick={() => setIsOpen(o => !o)} className={`absolute flex items-center justify-center rounded-full border transition-colors ${hasTransition ? 'h-5 px-1.5 bg-orange-600 border-orange-400 text-white' : 'w-5 h-5 bg-stone-900 border-stone-700 group-hover:border-orange-500'}`} title="Transição">
+                {hasTransition
+                    ? <span className="text-[8px] font-bold whitespace-nowrap">{transition.duration.toFixed(1)}s</span>
+                    : <Plus className="w-3 h-3 text-stone-600 group-hover:text-orange-500" />}
+            </button>
+            {isOpen && (
+                <div ref={popoverRef} className="absolute top-full mt-2 z-40 w-60 p-3 bg-[#1c1917] border border-stone-800 rounded-xl shadow-2xl flex flex-col gap-3">
+                    <TransitionPreview from={frames.from} to={frames.to} transition={transition} />
+                    <div className="grid grid-cols-3 gap-1">
+                        {TRANSITION_OPTIONS.map(option => (
+                            <button key={option.type} onClick={() => selectType(option.type)} className={`px-1 py-1.5 rounded text-[9px] font-bold border transition-colors ${transition.type === option.type ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-stone-900 border-stone-800 text-stone-400 hover:text-white'}`}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {hasTransition && (
+                        <label className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase">
+                            Duração
+                            <input type="range" min={0.1} max={MAX_TRANSITION_DURATION} step={0.1} value={transition.duration} onChange={(e) => onChangeTransition({ ...transition, duration: parseFloat(e.target.value) })} className="flex-1 h-1 accent-orange-500" />
+                            <span className="font-mono text-stone-300 w-8 text-right">{transition.duration.toFixed(1)}s</span>
+                        </label>
+                    )}
+                    <button onClick={() => inputRef.current?.click()} className="flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-stone-900 border border-stone-800 text-[10px] font-bold text-stone-400 hover:text-white hover:border-orange-500/50"><Plus className="w-3 h-3" /> INSERIR VÍDEO AQUI</button>
+                </div>
+            )}
             <input type="file" ref={inputRef} className="hidden" accept="video/*" onChange={(e) => e.target.files?.[0] && onInsertVideo(e.target.files[0])} />
         </div>
     );
 };
 
+// Etapas da exportação como aparecem na fila de tarefas, com a fatia de progresso de cada uma
+const EXPORT_STAGES: Record<RenderStage, { label: string; start: number; end: number }> = {
+  preparando: { label: 'Preparando clipes...', start: 0, end: 0.1 },
+  renderizando: { label: 'Renderizando...', start: 0.1, end: 0.95 },
+  finalizando: { label: 'Finalizando arquivo...', start: 0.95, end: 1 },
+};
+
+// Move os clipes `ids` (mantendo a ordem relativa) para o índice de inserção `index` da lista original
+const moveClipsTo = (list: VideoItem[], ids: Set<string>, index: number): VideoItem[] => {
+  const moving = list.filter(v => ids.has(v.id));
+  if (moving.length === 0) return list;
+  const before = list.slice(0, index).filter(v => !ids.has(v.id));
+  const after = list.slice(index).filter(v => !ids.has(v.id));
+  return [...before, ...moving, ...after];
+};
+
 // --- Componente Principal: TimelineEditor ---
-export const TimelineEditor: React.FC<TimelineEditorProps> = ({ videos, setVideos, onAddToGallery, onAddFiles, initialAspectRatio, onRenameVideo, onTotalDurationChange, onUpdateVideo }) => {
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ videos, setVideos, onAddToGallery, onAddFiles, onInsertFiles, initialAspectRatio, onRenameVideo, onTotalDurationChange, onUpdateVideo, onRelinkMedia, unplayableCount = 0, onConvertMedia, onGenerateProxies, detectingSceneIds, onDetectScenes, onBatchExtract, reveal, onRevealHandled, projectName }) => {
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
-  const ffmpegRef = useRef<FFmpeg | null>(null);
   const mainFileInputRef = useRef<HTMLInputElement>(null);
+  const [cropVideoId, setCropVideoId] = useState<string | null>(null);
+  const onlineVideos = videos.filter(isOnline);
+  const offlineCount = videos.length - onlineVideos.length;
+  const cropVideo = onlineVideos.find(v => v.id === cropVideoId);
+  const [batchVideoId, setBatchVideoId] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  // Busca pedida pela galeria, entregue ao card quando ele estiver montado
+  const [pendingSeek, setPendingSeek] = useState<{ videoId: string; time: number } | null>(null);
+  const batchVideo = onlineVideos.find(v => v.id === batchVideoId);
+  // Seleção múltipla de cards (ctrl/cmd alterna, shift estende a partir da âncora)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const panMovedRef = useRef(false);
+  // Posição de inserção enquanto arquivos são arrastados do desktop sobre o canvas
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  // Duração de cada clipe (reportada pelos cards) para calcular a duração do projeto com trims
+  const [clipDurations, setClipDurations] = useState<Record<string, number>>({});
+  // Monitor de programa e o clipe que ele está tocando agora
+  const [showMonitor, setShowMonitor] = useState(false);
+  const [programClipId, setProgramClipId] = useState<string | null>(null);
+  // Prévia pelos proxies (quando existem) ou pela mídia original
+  const [useProxies, setUseProxies] = useState(true);
+  // Limiar da detecção de cenas, compartilhado pelos cards e pela detecção do projeto inteiro
+  const [sceneThreshold, setSceneThreshold] = useState(DEFAULT_SCENE_THRESHOLD);
+  const [isScenePopoverOpen, setIsScenePopoverOpen] = useState(false);
+  // Canvas livre de cards ou trilha proporcional ao tempo (mesma seleção nas duas)
+  const [viewMode, setViewMode] = useState<'canvas' | 'track'>('canvas');
+
+  // Na trilha os cards não estão montados, então as durações que faltam são lidas dos metadados
+  const probingRef = useRef(new Set<string>());
+  useEffect(() => {
+    onlineVideos.forEach(video => {
+      if (clipDurations[video.id] !== undefined || probingRef.current.has(video.id)) return;
+      probingRef.current.add(video.id);
+      probeDuration(video.url)
+        .then(d => setClipDurations(prev => prev[video.id] !== undefined ? prev : { ...prev, [video.id]: d }))
+        .catch(() => {})
+        .finally(() => probingRef.current.delete(video.id));
+    });
+  }, [videos, clipDurations]);
+
+  const registerCard = useCallback((id: string, el: HTMLDivElement | null) => {
+    if (el) cardRefs.current.set(id, el); else cardRefs.current.delete(id);
+  }, []);
+
+  // "Mostrar na timeline": seleciona o clipe, volta para os cards e pede a busca ao card
+  useEffect(() => {
+    if (!reveal) return;
+    setViewMode('canvas');
+    setSelectedIds(new Set([reveal.videoId]));
+    selectionAnchorRef.current = reveal.videoId;
+    setPendingSeek(reveal);
+    onRevealHandled?.();
+  }, [reveal]);
+
+  // Centraliza o card pedido no canvas (depois que a troca para os cards já foi montada)
+  useEffect(() => {
+    if (!pendingSeek || viewMode !== 'canvas') return;
+    const card = cardRefs.current.get(pendingSeek.videoId)?.getBoundingClientRect();
+    const frame = rootRef.current?.getBoundingClientRect();
+    if (!card || !frame) return;
+    setPosition(p => ({
+      x: p.x + frame.left + frame.width / 2 - (card.left + card.width / 2),
+      y: p.y + frame.top + frame.height / 2 - (card.top + card.height / 2),
+    }));
+  }, [pendingSeek?.videoId, viewMode]);
+
+  // Clipes offline usam a duração registrada do arquivo original
+  const knownDurations = useMemo(() => {
+    const durations: Record<string, number> = {};
+    videos.forEach(v => { if (v.media?.duration !== undefined) durations[v.id] = v.media.duration; });
+    return { ...durations, ...clipDurations };
+  }, [videos, clipDurations]);
+
+  // Cards, trilha e monitor tocam o proxy; corte, capturas e exportação continuam no original
+  const previewUrlOf = (video: VideoItem) => useProxies && video.proxyUrl ? video.proxyUrl : video.url;
+  const previewVideos = useMemo(() => videos.map(v => ({ ...v, url: previewUrlOf(v) })), [videos, useProxies]);
+  // Lista estável para o monitor: um array novo a cada render seria lido como mudança na timeline (pausa e busca)
+  const monitorClips = useMemo(() => previewVideos.filter(isOnline), [previewVideos]);
+  const proxyCount = videos.filter(v => v.proxyFile).length;
+  const proxyCandidates = onlineVideos.filter(v => !v.proxyFile && canUseProxy(v));
+
+  // Avisos de mídia por clipe, comparando cada arquivo com a maioria do projeto e com a saída
+  const mediaWarnings = useMemo(() => {
+    const probed = videos.filter(v => v.media?.probe);
+    const profile = getProjectMediaProfile(probed.map(v => v.media!.probe!));
+    const warnings: Record<string, string[]> = {};
+    probed.forEach(v => { warnings[v.id] = getProbeWarnings(v.media!.probe!, profile, RESOLUTIONS[initialAspectRatio], v.crop); });
+    return warnings;
+  }, [videos, initialAspectRatio]);
+
+  const totalDuration = layoutTimeline(videos.map(v => ({ duration: getClipDuration(v, knownDurations[v.id] ?? 0), transition: v.transition }))).total;
+  useEffect(() => { onTotalDurationChange?.(totalDuration); }, [totalDuration, onTotalDurationChange]);
+
+  const exportFileName = `${(projectName || 'timeline').replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${initialAspectRatio.replace(':', 'x')}.mp4`;
+
+  // A exportação entra na fila de tarefas: dá para enfileirar várias e continuar editando
+  const handleExport = () => {
+    if (videos.length === 0) return;
+    if (offlineCount > 0) {
+      alert(`Religue a mídia de ${offlineCount === 1 ? '1 clipe offline' : `${offlineCount} clipes offline`} antes de exportar.`);
+      return;
+    }
+    const { width, height, label } = RESOLUTIONS[initialAspectRatio];
+    const clips = onlineVideos.map(v => ({ file: v.file, name: v.name, crop: v.crop, inPoint: v.inPoint, outPoint: v.outPoint, transition: v.transition }));
+    const fileName = exportFileName;
+
+    enqueueJob({
+      label: `Exportar ${fileName} · ${label}`,
+      lane: ENGINE_LANE,
+      run: async ({ signal, reportProgress }) => {
+        reportProgress(0, 'Carregando motor de vídeo...');
+        const job = runEngineJob('Exportar vídeo', ctx => renderTimeline(ctx, clips, { width, height, fps: EXPORT_FPS }, ({ stage, ratio }) => {
+          const { start, end } = EXPORT_STAGES[stage];
+          reportProgress(start + (end - start) * ratio, EXPORT_STAGES[stage].label);
+        }), signal);
+        const blob = await job.promise;
+        return { url: URL.createObjectURL(blob), fileName };
+      }
+    });
+  };
+
 
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsDragging(true);
+    panMovedRef.current = false;
     dragStartRef.current = { x: e.clientX - position.x, y: e.clientY - position.y };
   };
   const handleMouseMove = (e: React.MouseEvent) => {
     if (!isDragging) return;
+    panMovedRef.current = true;
     setPosition({ x: e.clientX - dragStartRef.current.x, y: e.clientY - dragStartRef.current.y });
   };
-  const handleMouseUp = () => setIsDragging(false);
+  const handleMouseUp = () => {
+    // Clique no fundo (sem arrastar o canvas) limpa a seleção
+    if (isDragging && !panMovedRef.current) setSelectedIds(new Set());
+    setIsDragging(false);
+  };
+  const handleMouseLeave = () => setIsDragging(false);
+
+  // Descarta da seleção clipes que saíram da timeline
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const existing = new Set(videos.map(v => v.id));
+      const next = new Set([...prev].filter(id => existing.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [videos]);
+
+  const handleSelect = (videoId: string, e: React.MouseEvent) => {
+    const anchor = selectionAnchorRef.current;
+    if (e.shiftKey && anchor) {
+      const from = videos.findIndex(v => v.id === anchor);
+      const to = videos.findIndex(v => v.id === videoId);
+      if (from !== -1 && to !== -1) {
+        const [a, b] = from < to ? [from, to] : [to, from];
+        setSelectedIds(new Set(videos.slice(a, b + 1).map(v => v.id)));
+        return;
+      }
+    }
+    selectionAnchorRef.current = videoId;
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(videoId)) next.delete(videoId); else next.add(videoId);
+        return next;
+      });
+    } else {
+      setSelectedIds(new Set([videoId]));
+    }
+  };
+
+  // --- Ações sobre a seleção (cada uma é um único setVideos) ---
+
+  const deleteSelection = () => {
+    const ids = selectedIds;
+    setVideos(prev => prev.filter(v => !ids.has(v.id)), ids.size > 1 ? `Excluir ${ids.size} clipes` : 'Excluir clipe');
+    setSelectedIds(new Set());
+  };
+
+  const duplicateSelection = () => {
+    const ids = selectedIds;
+    // Cópias e URLs criadas antes: o updater precisa ser puro (o StrictMode o roda duas vezes)
+    const next = videos.flatMap(v => ids.has(v.id)
+      ? [v, { ...v, id: crypto.randomUUID(), url: v.file && URL.createObjectURL(v.playbackFile ?? v.file), name: `${v.name} (cópia)` }]
+      : [v]);
+    setVideos(next, ids.size > 1 ? `Duplicar ${ids.size} clipes` : 'Duplicar clipe');
+  };
+
+  const shiftSelection = (direction: 'left' | 'right') => {
+    const ids = selectedIds;
+    const first = videos.findIndex(v => ids.has(v.id));
+    const last = videos.length - 1 - [...videos].reverse().findIndex(v => ids.has(v.id));
+    if (first === -1) return;
+    // Índice de inserção contado na lista original (antes de remover a seleção)
+    const target = direction === 'left' ? Math.max(0, first - 1) : Math.min(videos.length, last + 2);
+    setVideos(prev => moveClipsTo(prev, ids, target), 'Mover seleção');
+  };
+
+  const applyCropToSelection = (crop: CropSettings | undefined) => {
+    const ids = selectedIds;
+    setVideos(prev => prev.map(v => ids.has(v.id) ? { ...v, crop } : v), `Ajustar corte de ${ids.size} clipes`);
+  };
+
+  // Atalhos: Delete remove a seleção, Esc limpa
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]') || selectedIds.size === 0) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteSelection(); }
+      else if (e.key === 'Escape') setSelectedIds(new Set());
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleClipDragStart = (videoId: string, e: React.DragEvent) => {
+    // Arrastar um card fora da seleção move só ele
+    const ids = selectedIds.has(videoId) ? videos.filter(v => selectedIds.has(v.id)).map(v => v.id) : [videoId];
+    if (!selectedIds.has(videoId)) setSelectedIds(new Set([videoId]));
+    e.dataTransfer.setData(CLIP_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Índice de inserção = quantos cards têm o centro à esquerda do ponteiro
+  const getDropIndex = (clientX: number) => {
+    let index = 0;
+    videos.forEach((video, i) => {
+      const rect = cardRefs.current.get(video.id)?.getBoundingClientRect();
+      if (rect && clientX > rect.left + rect.width / 2) index = i + 1;
+    });
+    return index;
+  };
+
+  const isClipDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(CLIP_DRAG_TYPE);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files') && !isClipDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isClipDrag(e) ? 'move' : 'copy';
+    const index = getDropIndex(e.clientX);
+    if (index !== dropIndex) setDropIndex(index);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (isClipDrag(e)) {
+      e.preventDefault();
+      const ids = new Set<string>(JSON.parse(e.dataTransfer.getData(CLIP_DRAG_TYPE) || '[]'));
+      const index = getDropIndex(e.clientX);
+      setVideos(prev => moveClipsTo(prev, ids, index), 'Reordenar clipes');
+    } else if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      onInsertFiles(getDropIndex(e.clientX), e.dataTransfer.files);
+    }
+    setDropIndex(null);
+  };
 
   const moveVideo = (index: number, direction: 'left' | 'right') => {
     const newVideos = [...videos];
@@ -274,26 +995,51 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ videos, setVideo
     } else if (direction === 'right' && index < videos.length - 1) {
       [newVideos[index + 1], newVideos[index]] = [newVideos[index], newVideos[index + 1]];
     }
-    setVideos(newVideos);
+    setVideos(newVideos, 'Mover clipe');
   };
 
   return (
-    <div className="h-full flex flex-col bg-[#0c0a09] relative overflow-hidden" onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
+    <div ref={rootRef} className="h-full flex flex-col bg-[#0c0a09] relative overflow-hidden" onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseLeave} onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
       <input type="file" multiple accept="video/*" ref={mainFileInputRef} className="hidden" onChange={(e) => onAddFiles(e.target.files)} />
       
+      {viewMode === 'track' && videos.length > 0 ? (
+        <div className="flex-1 flex items-center">
+          <TimelineTrack
+            clips={previewVideos}
+            durations={knownDurations}
+            aspectRatio={initialAspectRatio}
+            selectedIds={selectedIds}
+            activeClipId={showMonitor ? programClipId : null}
+            dropIndex={dropIndex}
+            onSelect={handleSelect}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onClipDragStart={handleClipDragStart}
+            registerClip={registerCard}
+          />
+        </div>
+      ) : (
       <div className="flex-1 flex items-center justify-center cursor-grab active:cursor-grabbing">
         <div className="flex items-center transition-transform duration-75" style={{ transform: `translate(${position.x}px, ${position.y}px) scale(${scale})` }}>
           {videos.length === 0 ? (
-            <div className="flex flex-col items-center">
+            <div className={`flex flex-col items-center p-10 rounded-3xl border-2 border-dashed transition-colors ${dropIndex !== null ? 'border-orange-500 bg-orange-500/5' : 'border-transparent'}`}>
               <Film className="w-24 h-24 text-stone-800 mb-4" />
               <button onClick={() => mainFileInputRef.current?.click()} className="px-8 py-3 bg-orange-600 text-white font-bold rounded-xl shadow-lg">IMPORTAR VÍDEOS</button>
             </div>
           ) : (
             <>
               {videos.map((video, index) => (
-                <div key={video.id} className="flex items-center" onMouseDown={(e) => e.stopPropagation()}>
-                  <VideoCard video={video} index={index} total={videos.length} onMoveLeft={() => moveVideo(index, 'left')} onMoveRight={() => moveVideo(index, 'right')} onDelete={() => setVideos(v => v.filter(i => i.id !== video.id))} onAddToGallery={onAddToGallery} aspectRatio={initialAspectRatio} onUpdateVideo={onUpdateVideo} />
-                  {index < videos.length - 1 && <TransitionGap onInsertVideo={(file) => onAddFiles([file] as any)} />}
+                <div key={video.id} className="relative flex items-center" onMouseDown={(e) => e.stopPropagation()}>
+                  {/* Marcador de inserção (absoluto para não deslocar os cards durante o arraste) */}
+                  {dropIndex === index && <div className="absolute -left-2 top-0 bottom-0 w-1 bg-orange-500 rounded-full shadow-[0_0_15px_rgba(249,115,22,0.6)] pointer-events-none z-30" />}
+                  {dropIndex === videos.length && index === videos.length - 1 && <div className="absolute -right-2 top-0 bottom-0 w-1 bg-orange-500 rounded-full shadow-[0_0_15px_rgba(249,115,22,0.6)] pointer-events-none z-30" />}
+                  <div ref={(el) => registerCard(video.id, el)}>
+                  {isOnline(video) ? (
+                  <VideoCard video={video} index={index} total={videos.length} onMoveLeft={() => moveVideo(index, 'left')} onMoveRight={() => moveVideo(index, 'right')} onDelete={() => setVideos(v => v.filter(i => i.id !== video.id), 'Excluir clipe')} onAddToGallery={onAddToGallery} aspectRatio={initialAspectRatio} onUpdateVideo={onUpdateVideo} onOpenCrop={() => setCropVideoId(video.id)} onOpenBatchExtract={onBatchExtract && (() => setBatchVideoId(video.id))} isSelected={selectedIds.has(video.id)} onSelect={(e) => handleSelect(video.id, e)} onDragStart={(e) => handleClipDragStart(video.id, e)} isOnProgram={showMonitor && programClipId === video.id} mediaWarnings={mediaWarnings[video.id] ?? NO_WARNINGS} previewUrl={previewUrlOf(video)!} onGenerateProxy={onGenerateProxies && canUseProxy(video) ? () => onGenerateProxies([video.id]) : undefined} sceneThreshold={sceneThreshold} onSceneThresholdChange={setSceneThreshold} isDetectingScenes={detectingSceneIds?.has(video.id) ?? false} onDetectScenes={onDetectScenes && (() => onDetectScenes([video.id], sceneThreshold))} pendingSeek={pendingSeek?.videoId === video.id ? pendingSeek.time : undefined} onSeekHandled={() => setPendingSeek(null)} onDurationLoad={(d) => setClipDurations(prev => ({ ...prev, [video.id]: d }))} />
+                  ) : (
+                  <OfflineVideoCard video={video} index={index} total={videos.length} onMoveLeft={() => moveVideo(index, 'left')} onMoveRight={() => moveVideo(index, 'right')} onDelete={() => setVideos(v => v.filter(i => i.id !== video.id), 'Excluir clipe')} onRelink={onRelinkMedia} isSelected={selectedIds.has(video.id)} onSelect={(e) => handleSelect(video.id, e)} onDragStart={(e) => handleClipDragStart(video.id, e)} />
+                  )}
+                  </div>
+                  {index < videos.length - 1 && <TransitionGap fromVideo={previewVideos[index]} toVideo={previewVideos[index + 1]} aspectRatio={initialAspectRatio} onChangeTransition={(transition) => onUpdateVideo?.(video.id, { transition })} onInsertVideo={(file) => onInsertFiles(index + 1, [file])} />}
                 </div>
               ))}
               <button onClick={() => mainFileInputRef.current?.click()} className="mx-8 w-16 h-16 rounded-full border-2 border-dashed border-stone-800 flex items-center justify-center hover:border-orange-500"><Plus className="w-8 h-8 text-stone-700" /></button>
@@ -301,12 +1047,132 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ videos, setVideo
           )}
         </div>
       </div>
+      )}
+
+      {videos.length > 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-stone-900 p-1 rounded-lg border border-stone-800" onMouseDown={(e) => e.stopPropagation()}>
+          <button onClick={() => setViewMode('canvas')} className={`flex items-center gap-1.5 px-2.5 py-1 text-[10px] font-bold rounded ${viewMode === 'canvas' ? 'bg-stone-800 text-orange-400' : 'text-stone-500 hover:text-white'}`} title="Cards em canvas livre"><LayoutGrid className="w-3.5 h-3.5" /> CARDS</button>
+          <button onClick={() => setViewMode('track')} className={`flex items-center gap-1.5 px-2.5 py-1 text-[10px] font-bold rounded ${viewMode === 'track' ? 'bg-stone-800 text-orange-400' : 'text-stone-500 hover:text-white'}`} title="Trilha proporcional à duração"><GanttChartSquare className="w-3.5 h-3.5" /> TRILHA</button>
+          {viewMode === 'track' && <button onClick={() => mainFileInputRef.current?.click()} className="p-1 text-stone-500 hover:text-orange-500 rounded" title="Adicionar vídeos"><Plus className="w-4 h-4" /></button>}
+        </div>
+      )}
+
+      {videos.length > 0 && (
+        <div className="absolute top-4 right-6 z-20 flex items-center gap-2" onMouseDown={(e) => e.stopPropagation()}>
+          {proxyCandidates.length > 0 && onGenerateProxies && (
+            <button onClick={() => onGenerateProxies(proxyCandidates.map(v => v.id))} className="flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg border bg-stone-900 border-stone-700 text-stone-300 hover:text-white transition-colors" title={`Gerar cópias leves (até ${PROXY_MAX_SIZE}px) dos clipes grandes para a prévia`}>
+              <Feather className="w-4 h-4" />
+              GERAR PROXIES ({proxyCandidates.length})
+            </button>
+          )}
+          {onlineVideos.length > 0 && onDetectScenes && (
+            <div className="relative">
+              <button onClick={() => setIsScenePopoverOpen(o => !o)} className={`flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg border transition-colors ${isScenePopoverOpen ? 'bg-stone-800 border-orange-500/50 text-orange-400' : 'bg-stone-900 border-stone-700 text-stone-300 hover:text-white'}`} title="Detectar cenas em todos os clipes">
+                {detectingSceneIds && detectingSceneIds.size > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+                CENAS
+              </button>
+              {isScenePopoverOpen && (
+                <div className="absolute top-full right-0 mt-2 w-64 p-3 bg-[#1c1917] border border-stone-800 rounded-xl shadow-2xl flex flex-col gap-3">
+                  <SceneThresholdSlider value={sceneThreshold} onChange={setSceneThreshold} />
+                  <p className="text-[10px] text-stone-500">Marca os cortes no scrubber de cada card e adiciona um frame por cena à galeria.</p>
+                  <button onClick={() => { onDetectScenes(onlineVideos.map(v => v.id), sceneThreshold); setIsScenePopoverOpen(false); }} className="py-1.5 rounded-lg bg-orange-600 hover:bg-orange-500 text-white text-[10px] font-bold">
+                    DETECTAR EM {onlineVideos.length === 1 ? '1 CLIPE' : `${onlineVideos.length} CLIPES`}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {proxyCount > 0 && (
+            <button onClick={() => setUseProxies(p => !p)} className={`flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg border transition-colors ${useProxies ? 'bg-stone-800 border-orange-500/50 text-orange-400' : 'bg-stone-900 border-stone-700 text-stone-300 hover:text-white'}`} title={useProxies ? 'Prévia pelos proxies — clique para ver o original' : 'Prévia pelo original — clique para usar os proxies'}>
+              <Feather className="w-4 h-4" />
+              {useProxies ? 'PROXY' : 'ORIGINAL'}
+            </button>
+          )}
+          <button onClick={() => setShowMonitor(s => !s)} className={`flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg border transition-colors ${showMonitor ? 'bg-stone-800 border-orange-500/50 text-orange-400' : 'bg-stone-900 border-stone-700 text-stone-300 hover:text-white'}`} title="Assistir à timeline inteira">
+            <MonitorPlay className="w-4 h-4" />
+            MONITOR
+          </button>
+          <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-500 hover:to-red-500 disabled:opacity-50 text-white text-xs font-bold rounded-lg shadow-[0_0_15px_rgba(234,88,12,0.3)] transition-all">
+            <Download className="w-4 h-4" />
+            EXPORTAR VÍDEO
+          </button>
+        </div>
+      )}
+
+      {selectedIds.size > 0 && (
+        <div className="absolute top-4 left-6 z-20 flex items-center gap-1 bg-[#1c1917]/95 backdrop-blur p-1.5 rounded-xl border border-stone-800 shadow-lg" onMouseDown={(e) => e.stopPropagation()}>
+          <span className="px-2 text-[10px] font-bold text-orange-400 uppercase tracking-wider">{selectedIds.size} selecionado{selectedIds.size > 1 ? 's' : ''}</span>
+          <div className="w-px h-5 bg-stone-700 mx-1"></div>
+          <button onClick={() => shiftSelection('left')} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Mover para a esquerda"><ChevronLeft className="w-4 h-4" /></button>
+          <button onClick={() => shiftSelection('right')} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Mover para a direita"><ChevronRight className="w-4 h-4" /></button>
+          <button onClick={duplicateSelection} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Duplicar"><Copy className="w-4 h-4" /></button>
+          <button onClick={() => setCropVideoId(videos.find(v => selectedIds.has(v.id))?.id ?? null)} className="p-1.5 text-stone-400 hover:text-white hover:bg-stone-800 rounded-lg" title="Aplicar corte à seleção"><Crop className="w-4 h-4" /></button>
+          <button onClick={deleteSelection} className="p-1.5 text-red-500 hover:text-white hover:bg-red-600 rounded-lg" title="Excluir seleção"><Trash2 className="w-4 h-4" /></button>
+          <button onClick={() => setSelectedIds(new Set())} className="p-1.5 text-stone-500 hover:text-white hover:bg-stone-800 rounded-lg" title="Limpar seleção"><X className="w-4 h-4" /></button>
+        </div>
+      )}
 
-      <div className="absolute bottom-8 right-8 flex flex-col gap-2">
+      {(offlineCount > 0 || unplayableCount > 0) && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2" onMouseDown={(e) => e.stopPropagation()}>
+          {offlineCount > 0 && (
+            <div className="flex items-center gap-3 pl-3 pr-1 py-1 bg-red-950/60 backdrop-blur border border-red-900/60 rounded-lg">
+              <Unlink className="w-3.5 h-3.5 text-red-400" />
+              <span className="text-[11px] text-red-200">{offlineCount === 1 ? '1 clipe offline' : `${offlineCount} clipes offline`}</span>
+              {onRelinkMedia && <button onClick={onRelinkMedia} className="px-2.5 py-1 text-[10px] font-bold text-white bg-red-600/80 hover:bg-orange-600 rounded">RELIGAR</button>}
+            </div>
+          )}
+          {unplayableCount > 0 && (
+            <div className="flex items-center gap-3 pl-3 pr-1 py-1 bg-amber-950/60 backdrop-blur border border-amber-900/60 rounded-lg">
+              <EyeOff className="w-3.5 h-3.5 text-amber-400" />
+              <span className="text-[11px] text-amber-200">{unplayableCount === 1 ? '1 arquivo sem prévia no navegador' : `${unplayableCount} arquivos sem prévia no navegador`}</span>
+              {onConvertMedia && <button onClick={onConvertMedia} className="px-2.5 py-1 text-[10px] font-bold text-white bg-amber-600/80 hover:bg-orange-600 rounded">CONVERTER</button>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showMonitor && onlineVideos.length > 0 && (
+        <div className="absolute bottom-8 left-8 z-20">
+          <ProgramMonitor
+            clips={monitorClips}
+            durations={clipDurations}
+            aspectRatio={initialAspectRatio}
+            onActiveClipChange={setProgramClipId}
+            onClose={() => setShowMonitor(false)}
+          />
+        </div>
+      )}
+
+      {cropVideo && (
+        <CropModal
+          video={cropVideo}
+          aspectRatio={initialAspectRatio}
+          onClose={() => setCropVideoId(null)}
+          onSave={(crop) => {
+            // Se o card editado faz parte da seleção, o corte vale para todos os selecionados
+            if (selectedIds.has(cropVideo.id) && selectedIds.size > 1) applyCropToSelection(crop);
+            else onUpdateVideo?.(cropVideo.id, { crop });
+            setCropVideoId(null);
+          }}
+        />
+      )}
+
+      {batchVideo && onBatchExtract && (
+        <BatchExtractModal
+          videoName={batchVideo.name}
+          duration={knownDurations[batchVideo.id] ?? 0}
+          range={getClipRange(batchVideo, knownDurations[batchVideo.id] ?? 0)}
+          frameRate={batchVideo.media?.probe?.frameRate ?? 0}
+          onExtract={(times, destination) => { onBatchExtract(batchVideo.id, times, destination); setBatchVideoId(null); }}
+          onClose={() => setBatchVideoId(null)}
+        />
+      )}
+
+      {viewMode === 'canvas' && <div className="absolute bottom-8 right-8 flex flex-col gap-2">
         <button onClick={() => setScale(s => Math.min(s + 0.1, 3))} className="p-2 bg-stone-900 border border-stone-700 rounded-lg"><ZoomIn className="w-5 h-5" /></button>
         <button onClick={() => setScale(s => Math.max(s - 0.1, 0.2))} className="p-2 bg-stone-900 border border-stone-700 rounded-lg"><ZoomOut className="w-5 h-5" /></button>
         <button onClick={() => { setScale(1); setPosition({x:0, y:0}); }} className="p-2 bg-stone-900 border border-stone-700 rounded-lg"><Move className="w-5 h-5" /></button>
-      </div>
+      </div>}
     </div>
   );
 };
\ No newline at end of file
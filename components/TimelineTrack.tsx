@@ -0,0 +1,218 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Magnet, Unlink } from 'lucide-react';
+import { aspectRatioValue, CropSettings } from '../utils/crop';
+import { grabFrame } from '../utils/frames';
+import { formatTime, getClipRange, layoutTimeline, TransitionSettings, TrimPoints } from '../utils/timeline';
+
+interface TrackClip extends TrimPoints {
+  id: string;
+  url?: string; // sem URL o clipe está offline
+  name: string;
+  crop?: CropSettings;
+  transition?: TransitionSettings;
+}
+
+interface TimelineTrackProps {
+  clips: TrackClip[];
+  durations: Record<string, number>;
+  aspectRatio: string;
+  selectedIds: Set<string>;
+  activeClipId?: string | null; // clipe no ar no monitor de programa
+  dropIndex: number | null;
+  onSelect: (clipId: string, e: React.MouseEvent) => void;
+  onClearSelection: () => void;
+  onClipDragStart: (clipId: string, e: React.DragEvent) => void;
+  // Os blocos entram no mesmo mapa de refs dos cards, então o cálculo de inserção do editor vale aqui também
+  registerClip: (clipId: string, el: HTMLDivElement | null) => void;
+}
+
+const MIN_PX_PER_SECOND = 2;
+const MAX_PX_PER_SECOND = 400;
+const TRACK_PADDING = 24;
+// Distância (px) em que a agulha gruda numa borda de clipe
+const SNAP_PX = 8;
+// Intervalos possíveis entre marcas da régua; usa o menor que deixe ~80px entre elas
+const RULER_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+// A miniatura muda quando o trim de entrada ou o corte mudam
+const thumbnailKey = (clip: TrackClip, start: number) =>
+  `${clip.id}:${start.toFixed(2)}:${clip.crop ? `${clip.crop.scale}:${clip.crop.x}:${clip.crop.y}` : ''}`;
+
+// Miniatura do primeiro frame usado do clipe, repetida ao longo do bloco
+const useClipThumbnails = (clips: TrackClip[], durations: Record<string, number>, aspect: number) => {
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const pendingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    clips.forEach(clip => {
+      const duration = durations[clip.id];
+      if (!clip.url || !(duration > 0)) return;
+      const start = getClipRange(clip, duration).start;
+      const key = thumbnailKey(clip, start);
+      if (thumbs[key] || pendingRef.current.has(key)) return;
+      pendingRef.current.add(key);
+      grabFrame(clip.url, () => start, clip.crop, aspect)
+        .then(src => setThumbs(prev => ({ ...prev, [key]: src })))
+        .catch(() => {})
+        .finally(() => pendingRef.current.delete(key));
+    });
+  }, [clips, durations, aspect, thumbs]);
+
+  return (clip: TrackClip) => {
+    const duration = durations[clip.id];
+    if (!(duration > 0)) return undefined;
+    const start = getClipRange(clip, duration).start;
+    return thumbs[thumbnailKey(clip, start)];
+  };
+};
+
+/**
+ * Visão de trilha: cada clipe ocupa largura proporcional à duração (com trims e transições),
+ * com régua de tempo, zoom, agulha com snap e seleção compartilhada com os cards.
+ */
+export const TimelineTrack: React.FC<TimelineTrackProps> = ({ clips, durations, aspectRatio, selectedIds, activeClipId, dropIndex, onSelect, onClearSelection, onClipDragStart, registerClip }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pxPerSecond, setPxPerSecond] = useState(40);
+  const [playhead, setPlayhead] = useState(0);
+  const [snapping, setSnapping] = useState(true);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const hasFittedRef = useRef(false);
+  const aspect = aspectRatioValue(aspectRatio);
+  const getThumbnail = useClipThumbnails(clips, durations, aspect);
+
+  const { entries, total } = useMemo(() => layoutTimeline(clips.map(c => {
+    const range = getClipRange(c, durations[c.id] ?? 0);
+    return { duration: range.end - range.start, transition: c.transition };
+  })), [clips, durations]);
+
+  const fitToView = useCallback(() => {
+    const width = scrollRef.current?.clientWidth ?? 0;
+    if (width <= 0 || total <= 0) return;
+    setPxPerSecond(Math.min(MAX_PX_PER_SECOND, Math.max(MIN_PX_PER_SECOND, (width - TRACK_PADDING * 2) / total)));
+  }, [total]);
+
+  // Enquadra a trilha inteira na primeira vez que as durações chegam
+  useEffect(() => {
+    if (hasFittedRef.current || total <= 0) return;
+    hasFittedRef.current = true;
+    fitToView();
+  }, [total, fitToView]);
+
+  useEffect(() => { if (playhead > total) setPlayhead(total); }, [total, playhead]);
+
+  const zoomBy = (factor: number) => setPxPerSecond(p => Math.min(MAX_PX_PER_SECOND, Math.max(MIN_PX_PER_SECOND, p * factor)));
+
+  const rulerStep = RULER_STEPS.find(step => step * pxPerSecond >= 80) ?? RULER_STEPS[RULER_STEPS.length - 1];
+  const ticks: number[] = [];
+  for (let t = 0; t <= total + 1e-6; t += rulerStep) ticks.push(t);
+
+  const boundaries = useMemo(() => {
+    const points = new Set<number>([0, total]);
+    entries.forEach(entry => { points.add(entry.start); points.add(entry.start + entry.duration); });
+    return [...points];
+  }, [entries, total]);
+
+  const timeFromClientX = (clientX: number) => {
+    const el = scrollRef.current;
+    if (!el) return 0;
+    const x = clientX - el.getBoundingClientRect().left + el.scrollLeft - TRACK_PADDING;
+    let time = Math.min(total, Math.max(0, x / pxPerSecond));
+    if (snapping) {
+      const nearest = boundaries.reduce((best, b) => Math.abs(b - time) < Math.abs(best - time) ? b : best, time);
+      if (Math.abs(nearest - time) * pxPerSecond <= SNAP_PX) time = nearest;
+    }
+    return time;
+  };
+
+  const handleScrubStart = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    setPlayhead(timeFromClientX(e.clientX));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15);
+  };
+
+  const clipUnderPlayhead = clips[entries.reduce((found, entry, i) => playhead >= entry.start ? i : found, -1)];
+  const contentWidth = total * pxPerSecond + TRACK_PADDING * 2;
+  const xOf = (time: number) => TRACK_PADDING + time * pxPerSecond;
+  const dropX = dropIndex === null ? null : xOf(dropIndex < entries.length ? entries[dropIndex].start : total);
+
+  return (
+    <div className="w-full h-full flex flex-col justify-center px-8 gap-3" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-[11px] font-mono">
+          <span className="text-orange-400">{formatTime(playhead)}</span>
+          <span className="text-stone-600">/ {formatTime(total)}</span>
+          {clipUnderPlayhead && <span className="text-stone-500 font-sans truncate max-w-[16rem]">{clipUnderPlayhead.name}</span>}
+        </div>
+        <div className="flex items-center gap-1 bg-stone-900 p-1 rounded-lg border border-stone-800">
+          <button onClick={() => setSnapping(s => !s)} className={`p-1.5 rounded ${snapping ? 'text-orange-400 bg-stone-800' : 'text-stone-500 hover:text-white'}`} title="Snap nas bordas dos clipes"><Magnet className="w-4 h-4" /></button>
+          <div className="w-px h-4 bg-stone-700 mx-0.5"></div>
+          <button onClick={() => zoomBy(1 / 1.5)} className="p-1.5 text-stone-400 hover:text-white rounded" title="Diminuir zoom"><ZoomOut className="w-4 h-4" /></button>
+          <button onClick={() => zoomBy(1.5)} className="p-1.5 text-stone-400 hover:text-white rounded" title="Aumentar zoom"><ZoomIn className="w-4 h-4" /></button>
+          <button onClick={fitToView} className="p-1.5 text-stone-400 hover:text-white rounded" title="Ajustar à tela"><Maximize2 className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="w-full overflow-x-auto overflow-y-hidden bg-[#1c1917] border border-stone-800 rounded-xl" onWheel={handleWheel}>
+        <div className="relative" style={{ width: Math.max(contentWidth, scrollRef.current?.clientWidth ?? 0), height: 148 }}>
+          {/* Régua: clique/arraste move a agulha */}
+          <div
+            className="absolute inset-x-0 top-0 h-7 border-b border-stone-800 cursor-col-resize select-none"
+            onPointerDown={handleScrubStart}
+            onPointerMove={(e) => { if (isScrubbing) setPlayhead(timeFromClientX(e.clientX)); }}
+            onPointerUp={() => setIsScrubbing(false)}
+          >
+            {ticks.map(t => (
+              <div key={t} className="absolute top-0 h-full flex flex-col justify-end" style={{ left: xOf(t) }}>
+                <span className="absolute top-1 left-1 text-[9px] font-mono text-stone-500 whitespace-nowrap">{formatTime(t)}</span>
+                <div className="w-px h-2 bg-stone-600" />
+              </div>
+            ))}
+          </div>
+
+          {/* Faixa dos clipes; clique no vazio limpa a seleção */}
+          <div className="absolute inset-x-0 top-9 h-24" onClick={onClearSelection}>
+            {clips.map((clip, i) => {
+              const entry = entries[i];
+              if (!entry) return null;
+              const thumb = getThumbnail(clip);
+              const isSelected = selectedIds.has(clip.id);
+              return (
+                <div
+                  key={clip.id}
+                  ref={(el) => registerClip(clip.id, el)}
+                  draggable
+                  onDragStart={(e) => onClipDragStart(clip.id, e)}
+                  onClick={(e) => { e.stopPropagation(); onSelect(clip.id, e); }}
+                  className={`absolute top-0 h-full rounded-md overflow-hidden border cursor-pointer transition-shadow ${clip.url ? 'bg-stone-800' : 'bg-red-950/30 border-dashed'} ${isSelected ? 'border-orange-500 ring-2 ring-orange-500 z-10' : activeClipId === clip.id ? 'border-red-500/70 shadow-[0_0_15px_rgba(239,68,68,0.3)]' : clip.url ? 'border-stone-700 hover:border-stone-500' : 'border-red-900/70 hover:border-red-700'}`}
+                  style={{ left: xOf(entry.start), width: Math.max(2, entry.duration * pxPerSecond) }}
+                  title={`${clip.name} — ${clip.url ? formatTime(entry.duration) : 'mídia offline'}`}
+                >
+                  {!clip.url && <Unlink className="absolute top-1.5 left-1.5 w-3 h-3 text-red-500" />}
+                  {thumb && <div className="absolute inset-0 opacity-60" style={{ backgroundImage: `url(${thumb})`, backgroundSize: 'auto 100%', backgroundRepeat: 'repeat-x' }} />}
+                  {/* Sobreposição com o clipe anterior (transição) */}
+                  {entry.transitionIn > 0 && <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-orange-500/40 to-transparent border-r border-orange-500/40" style={{ width: entry.transitionIn * pxPerSecond }} />}
+                  <div className="absolute inset-x-0 bottom-0 px-1.5 py-1 bg-gradient-to-t from-black/80 to-transparent flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-semibold text-stone-200 truncate">{i + 1}. {clip.name}</span>
+                    <span className="text-[9px] font-mono text-stone-400 shrink-0">{formatTime(entry.duration)}</span>
+                  </div>
+                </div>
+              );
+            })}
+            {dropX !== null && <div className="absolute -top-1 -bottom-1 w-1 -ml-0.5 bg-orange-500 rounded-full shadow-[0_0_15px_rgba(249,115,22,0.6)] pointer-events-none z-30" style={{ left: dropX }} />}
+          </div>
+
+          {/* Agulha */}
+          <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none z-20" style={{ left: xOf(playhead) }}>
+            <div className="absolute -top-0 -left-1.5 w-3 h-3 bg-white rotate-45 -translate-y-1.5" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
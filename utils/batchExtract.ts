@@ -0,0 +1,150 @@
+// Extração em lote de frames de um clipe (a cada N segundos, a cada N frames ou K frames
+// distribuídos), feita pelo FFmpeg no worker do motor, para a galeria ou direto num ZIP.
+import { getCropRect } from './crop';
+import { runEngineJob } from './ffmpegEngine';
+import { enqueueJob, ENGINE_LANE } from './jobQueue';
+import { displaySize, extensionOf, probeFile } from './mediaProbe';
+import { OnlineVideoItem } from './project';
+import { DEFAULT_FRAME_RATE } from './timecode';
+import { buildFramingFilter } from './videoExport';
+
+export type BatchExtractMode = 'interval' | 'every-frame' | 'count';
+export type BatchExtractDestination = 'gallery' | 'zip';
+
+export interface BatchExtractSettings {
+  mode: BatchExtractMode;
+  value: number; // segundos entre frames, passo em frames ou total de frames, conforme o modo
+}
+
+export const BATCH_EXTRACT_MODES: { mode: BatchExtractMode; label: string; unit: string }[] = [
+  { mode: 'interval', label: 'A cada N segundos', unit: 's' },
+  { mode: 'every-frame', label: 'A cada N frames', unit: 'frames' },
+  { mode: 'count', label: 'K frames distribuídos', unit: 'frames' },
+];
+
+// Limite por lote: cada frame vira um PNG em memória
+export const MAX_BATCH_FRAMES = 300;
+
+/**
+ * Instantes (em segundos da origem) a extrair dentro de [start, end). No modo `count` os frames
+ * ficam no meio de fatias iguais, para não repetir o primeiro e o último frame do trecho.
+ */
+export const getSamplePositions = (settings: BatchExtractSettings, start: number, end: number, frameRate: number): number[] => {
+  const length = end - start;
+  if (!(length > 0) || !(settings.value > 0)) return [];
+
+  const step = settings.mode === 'interval' ? settings.value
+    : settings.mode === 'every-frame' ? Math.round(settings.value) / (frameRate > 0 ? frameRate : DEFAULT_FRAME_RATE)
+    : length / Math.round(settings.value);
+  if (!(step > 0)) return [];
+
+  const offset = settings.mode === 'count' ? step / 2 : 0;
+  const positions: number[] = [];
+  for (let i = 0; positions.length < MAX_BATCH_FRAMES; i++) {
+    const time = start + offset + i * step;
+    if (time >= end) break;
+    positions.push(time);
+  }
+  return positions;
+};
+
+export interface ExtractedFrame {
+  src: string;  // PNG em data URL
+  time: number;
+}
+
+const toDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error('Não foi possível ler o frame extraído.'));
+  reader.readAsDataURL(blob);
+});
+
+const baseName = (name: string) => name.substring(0, name.lastIndexOf('.')) || name;
+
+// Primeiro frame com instante >= cada alvo (relativos ao início do trecho); no primeiro frame `prev_t` é NAN
+const buildSelectExpression = (targets: number[]) =>
+  targets.map(t => `gte(t,${t.toFixed(3)})*not(gte(prev_t,${t.toFixed(3)}))`).join('+');
+
+// Instante de cada frame que passou pelo showinfo, na ordem de saída
+const parseFrameTimes = (log: string, offset: number): number[] =>
+  log.split('\n').flatMap(line => {
+    const match = line.includes('showinfo') ? line.match(/pts_time:\s*(-?\d+(?:\.\d+)?)/) : null;
+    return match ? [offset + parseFloat(match[1])] : [];
+  });
+
+/**
+ * Enfileira a extração dos frames nos instantes dados, com o corte do clipe (mesmo enquadramento
+ * das capturas avulsas). Na galeria o resultado chega por `onFrames`; no ZIP, vira o download da tarefa.
+ */
+export const enqueueBatchExtraction = (
+  video: OnlineVideoItem,
+  times: number[],
+  aspect: number,
+  destination: BatchExtractDestination,
+  onFrames: (frames: ExtractedFrame[]) => void
+): string => enqueueJob({
+  label: `Extrair ${times.length} frames de ${video.name}`,
+  lane: ENGINE_LANE,
+  downloadOnFinish: destination === 'zip',
+  run: async ({ signal, reportProgress }) => {
+    const sorted = [...times].sort((a, b) => a - b);
+    const first = sorted[0];
+    const span = sorted[sorted.length - 1] - first;
+    reportProgress(0, 'Carregando motor de vídeo...');
+
+    const frames = await runEngineJob(`Extrair frames de ${video.name}`, async ctx => {
+      // Como nas capturas avulsas, os frames vêm do original; o intermediário só entra se o FFmpeg não o decodificar
+      const sources = video.playbackFile ? [video.file, video.playbackFile] : [video.file];
+      for (const [index, source] of sources.entries()) {
+        const input = await ctx.writeFile(`batch${index}${extensionOf(source.name)}`, source);
+        const size = displaySize(await probeFile(ctx, input));
+        const filters = [`select='${buildSelectExpression(sorted.map(t => t - first))}'`, 'showinfo'];
+        if (video.crop && size.width > 0 && size.height > 0) {
+          const rect = getCropRect(video.crop, size.width, size.height, aspect);
+          const w = Math.max(1, Math.round(rect.width));
+          const h = Math.max(1, Math.round(rect.height));
+          filters.push(buildFramingFilter({ crop: video.crop, ...size }, w, h));
+        }
+
+        // Uma passada só: busca até o primeiro instante e decodifica o trecho uma vez, gravando um PNG por frame escolhido
+        const { exitCode, log } = await ctx.exec([
+          '-y', '-ss', first.toFixed(3), '-t', (span + 1).toFixed(3), '-i', input,
+          '-an', '-vf', filters.join(','), '-vsync', '0', '-f', 'image2', ctx.outputPath('frame_%04d.png')
+        ], {
+          onProgress: ({ time }) => reportProgress(0.9 * Math.min(1, span > 0 ? time / 1_000_000 / span : 0), 'Extraindo frames...'),
+        });
+        const frameTimes = parseFrameTimes(log, first);
+        if (exitCode !== 0 || frameTimes.length === 0) {
+          if (index < sources.length - 1) continue;
+          throw new Error(`O FFmpeg não conseguiu extrair os frames de "${video.name}" (código ${exitCode}).`);
+        }
+
+        const extracted: { data: Uint8Array; time: number }[] = [];
+        for (const [i, time] of frameTimes.entries()) {
+          extracted.push({ data: await ctx.readFile(ctx.outputPath(`frame_${String(i + 1).padStart(4, '0')}.png`)), time });
+        }
+        return extracted;
+      }
+      return [];
+    }, signal).promise;
+
+    if (destination === 'gallery') {
+      const result = await Promise.all(frames.map(async ({ data, time }) => ({ src: await toDataUrl(new Blob([data], { type: 'image/png' })), time })));
+      if (!signal.aborted) onFrames(result);
+      return;
+    }
+
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const name = baseName(video.name);
+    const folder = zip.folder(`${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_frames`);
+    frames.forEach(({ data, time }, i) => folder?.file(`${name}_${String(i + 1).padStart(4, '0')}_${time.toFixed(3)}s.png`, data));
+    reportProgress(0.9, 'Compactando...');
+    const content = await zip.generateAsync({ type: 'blob' }, (meta) => {
+      if (signal.aborted) throw new Error('Tarefa cancelada.');
+      reportProgress(0.9 + 0.1 * meta.percent / 100);
+    });
+    return { url: URL.createObjectURL(content), fileName: `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_frames_${Date.now()}.zip` };
+  }
+});
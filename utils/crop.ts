@@ -0,0 +1,130 @@
+import type { CSSProperties } from 'react';
+
+// Corte salvo no VideoItem, normalizado pela origem: o mesmo valor gera o mesmo
+// enquadramento em qualquer tela ou resolução do arquivo.
+export interface CropSettings {
+  scale: number; // zoom relativo ao enquadramento "preencher" (1 = preenche o quadro)
+  x: number;     // centro do recorte, 0..1 da largura da origem
+  y: number;     // centro do recorte, 0..1 da altura da origem
+}
+
+export const DEFAULT_CROP: CropSettings = { scale: 1, x: 0.5, y: 0.5 };
+export const MAX_CROP_SCALE = 4;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Parte visível da origem (s*) e onde ela cai no quadro de saída (d*), em pixels
+export interface CropPlacement {
+  sx: number; sy: number; sw: number; sh: number;
+  dx: number; dy: number; dw: number; dh: number;
+}
+
+export const aspectRatioValue = (ratio: string): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+// Maior janela com o aspecto do projeto que cabe inteira na origem (zoom 1)
+const getFillSize = (srcW: number, srcH: number, aspect: number) => {
+  const width = Math.min(srcW, srcH * aspect);
+  return { width, height: width / aspect };
+};
+
+// Zoom em que a origem inteira aparece no quadro (com barras); único caso abaixo de 1
+export const getFitScale = (srcW: number, srcH: number, aspect: number): number => {
+  return getFillSize(srcW, srcH, aspect).width / Math.max(srcW, srcH * aspect);
+};
+
+// Mantém o recorte dentro da origem: só sobra espaço vazio no eixo em que o zoom está abaixo do "preencher"
+export const clampCrop = (crop: CropSettings, srcW: number, srcH: number, aspect: number): CropSettings => {
+  const scale = Math.min(MAX_CROP_SCALE, Math.max(getFitScale(srcW, srcH, aspect), crop.scale || 1));
+  const fill = getFillSize(srcW, srcH, aspect);
+  const halfW = fill.width / scale / 2 / srcW;
+  const halfH = fill.height / scale / 2 / srcH;
+  const clampAxis = (value: number, half: number) => half >= 0.5 ? 0.5 : Math.min(1 - half, Math.max(half, value));
+  return { scale, x: clampAxis(crop.x, halfW), y: clampAxis(crop.y, halfH) };
+};
+
+// Região da origem (px) enquadrada pelo corte; só ultrapassa as bordas no modo "ajustar"
+export const getCropRect = (crop: CropSettings, srcW: number, srcH: number, aspect: number): Rect => {
+  const { scale, x, y } = clampCrop(crop, srcW, srcH, aspect);
+  const fill = getFillSize(srcW, srcH, aspect);
+  const width = fill.width / scale;
+  const height = fill.height / scale;
+  return { x: x * srcW - width / 2, y: y * srcH - height / 2, width, height };
+};
+
+// Corte de um formato levado para outro: mesmo centro e mesma área da origem à mostra
+export const refitCrop = (crop: CropSettings, srcW: number, srcH: number, fromAspect: number, toAspect: number): CropSettings => {
+  const rect = getCropRect(crop, srcW, srcH, fromAspect);
+  const width = Math.sqrt(rect.width * rect.height * toAspect);
+  return clampCrop({
+    scale: getFillSize(srcW, srcH, toAspect).width / width,
+    x: (rect.x + rect.width / 2) / srcW,
+    y: (rect.y + rect.height / 2) / srcH,
+  }, srcW, srcH, toAspect);
+};
+
+// Sem corte o vídeo inteiro cabe no quadro (letterbox), como na exportação padrão
+const getFitRect = (srcW: number, srcH: number, aspect: number): Rect => {
+  const width = Math.max(srcW, srcH * aspect);
+  const height = width / aspect;
+  return { x: (srcW - width) / 2, y: (srcH - height) / 2, width, height };
+};
+
+export const getCropPlacement = (crop: CropSettings | undefined, srcW: number, srcH: number, outW: number, outH: number): CropPlacement => {
+  const aspect = outW / outH;
+  const rect = crop ? getCropRect(crop, srcW, srcH, aspect) : getFitRect(srcW, srcH, aspect);
+  const k = outW / rect.width;
+
+  const sx = Math.max(0, rect.x);
+  const sy = Math.max(0, rect.y);
+  const sw = Math.max(0, Math.min(srcW, rect.x + rect.width) - sx);
+  const sh = Math.max(0, Math.min(srcH, rect.y + rect.height) - sy);
+
+  return { sx, sy, sw, sh, dx: (sx - rect.x) * k, dy: (sy - rect.y) * k, dw: sw * k, dh: sh * k };
+};
+
+// Posição do vídeo inteiro (em % do quadro) para pré-visualizar o corte via CSS
+export const getCropPreviewStyle = (crop: CropSettings, srcW: number, srcH: number, aspect: number): CSSProperties => {
+  const rect = getCropRect(crop, srcW, srcH, aspect);
+  return {
+    position: 'absolute',
+    left: `${(-rect.x / rect.width) * 100}%`,
+    top: `${(-rect.y / rect.height) * 100}%`,
+    width: `${(srcW / rect.width) * 100}%`,
+    height: `${(srcH / rect.height) * 100}%`,
+    maxWidth: 'none',
+  };
+};
+
+// Captura o frame exibido já com o corte aplicado (sem corte: frame inteiro na resolução original)
+export const captureFrame = (video: HTMLVideoElement, crop: CropSettings | undefined, aspect: number): string => {
+  const srcW = video.videoWidth;
+  const srcH = video.videoHeight;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!crop) {
+    canvas.width = srcW;
+    canvas.height = srcH;
+    ctx?.drawImage(video, 0, 0, srcW, srcH);
+    return canvas.toDataURL('image/png');
+  }
+
+  const rect = getCropRect(crop, srcW, srcH, aspect);
+  canvas.width = Math.max(1, Math.round(rect.width));
+  canvas.height = Math.max(1, Math.round(rect.height));
+  const p = getCropPlacement(crop, srcW, srcH, canvas.width, canvas.height);
+  if (ctx) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (p.sw > 0 && p.sh > 0) ctx.drawImage(video, p.sx, p.sy, p.sw, p.sh, p.dx, p.dy, p.dw, p.dh);
+  }
+  return canvas.toDataURL('image/png');
+};
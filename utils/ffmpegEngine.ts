@@ -0,0 +1,215 @@
+// Motor FFmpeg único do app: carregado sob demanda a partir de public/ffmpeg (baixado por
+// setup_ffmpeg.js, nada vem de CDN) e usado por uma tarefa de cada vez.
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+
+// Só o núcleo (js + wasm) vem daqui; o worker da classe FFmpeg é empacotado pelo Vite junto com @ffmpeg/ffmpeg
+const CORE_BASE_URL = '/ffmpeg';
+// Todo .wasm começa com "\0asm"; o servidor de dev devolve o index.html para arquivos que não existem
+const WASM_MAGIC = [0x00, 0x61, 0x73, 0x6d];
+
+export type EngineStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface EngineState {
+  status: EngineStatus;
+  error?: string; // motivo da última falha de carregamento
+}
+
+export interface ExecOptions {
+  onProgress?: (event: { progress: number; time: number }) => void; // `time` em microssegundos da saída
+  onLog?: (line: string) => void;
+}
+
+export interface ExecResult {
+  exitCode: number;
+  log: string; // saída completa (stdout + stderr) do comando
+}
+
+// O que uma tarefa pode fazer com o motor; os arquivos que ela cria são apagados ao final
+export interface EngineContext {
+  writeFile: (name: string, data: File | Blob | Uint8Array | string) => Promise<string>;
+  outputPath: (name: string) => string;
+  readFile: (path: string) => Promise<Uint8Array>;
+  exec: (args: string[], options?: ExecOptions) => Promise<ExecResult>;
+}
+
+export interface EngineJob<T> {
+  label: string;
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+// --- Estado observável (para a interface acompanhar o carregamento) ---
+
+let state: EngineState = { status: 'idle' };
+const listeners = new Set<() => void>();
+
+const setState = (next: EngineState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getEngineState = (): EngineState => state;
+
+// Assinatura no formato do useSyncExternalStore
+export const subscribeEngine = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- Carregamento ---
+
+const missingCoreError = (name: string) =>
+  new Error(`Motor de vídeo não encontrado em ${CORE_BASE_URL}/${name}. Rode "node setup_ffmpeg.js" para baixar o FFmpeg.`);
+
+const fetchCoreAsset = async (name: string, type: string): Promise<string> => {
+  const response = await fetch(`${CORE_BASE_URL}/${name}`).catch(() => null);
+  if (!response?.ok) throw missingCoreError(name);
+  const buffer = await response.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+  const isValid = type === 'application/wasm'
+    ? WASM_MAGIC.every((byte, i) => bytes[i] === byte)
+    : !(response.headers.get('content-type') ?? '').includes('text/html');
+  if (!isValid) throw missingCoreError(name);
+  return URL.createObjectURL(new Blob([buffer], { type }));
+};
+
+// As URLs do núcleo são reaproveitadas quando o motor é recriado depois de um cancelamento
+let coreUrlsPromise: Promise<{ coreURL: string; wasmURL: string }> | null = null;
+let enginePromise: Promise<FFmpeg> | null = null;
+
+const loadCoreUrls = () => {
+  if (!coreUrlsPromise) {
+    coreUrlsPromise = Promise.all([
+      fetchCoreAsset('ffmpeg-core.js', 'text/javascript'),
+      fetchCoreAsset('ffmpeg-core.wasm', 'application/wasm'),
+    ]).then(([coreURL, wasmURL]) => ({ coreURL, wasmURL }));
+    coreUrlsPromise.catch(() => { coreUrlsPromise = null; });
+  }
+  return coreUrlsPromise;
+};
+
+const loadEngine = (): Promise<FFmpeg> => {
+  if (!enginePromise) {
+    setState({ status: 'loading' });
+    const loading = (async () => {
+      const urls = await loadCoreUrls();
+      const ffmpeg = new FFmpeg();
+      try {
+        await ffmpeg.load(urls);
+      } catch (error) {
+        ffmpeg.terminate();
+        throw new Error(`Não foi possível iniciar o FFmpeg: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return ffmpeg;
+    })();
+    enginePromise = loading;
+    loading.then(
+      () => { if (enginePromise === loading) setState({ status: 'ready' }); },
+      (error) => {
+        if (enginePromise === loading) enginePromise = null;
+        setState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    );
+  }
+  return enginePromise;
+};
+
+// terminate() derruba o worker e tudo que estava no sistema de arquivos; a próxima tarefa recarrega
+const resetEngine = (ffmpeg: FFmpeg) => {
+  ffmpeg.terminate();
+  enginePromise = null;
+  setState({ status: 'idle' });
+};
+
+// --- Tarefas ---
+
+const cancelledError = () => Object.assign(new Error('Tarefa cancelada.'), { name: 'AbortError' });
+
+export const isCancelledError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+let jobCount = 0;
+let queueTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Enfileira uma tarefa no motor: roda depois das anteriores, com o motor já carregado.
+ * Cancelar uma tarefa na fila só a retira; cancelar a que está rodando reinicia o motor.
+ * Com `signal`, abortar o sinal equivale a chamar cancel().
+ */
+export const runEngineJob = <T>(label: string, task: (ctx: EngineContext) => Promise<T>, signal?: AbortSignal): EngineJob<T> => {
+  const prefix = `job${++jobCount}_`;
+  let cancelled = false;
+  let running: FFmpeg | null = null;
+  let rejectJob: (error: Error) => void = () => {};
+
+  const run = async (): Promise<T> => {
+    if (cancelled) throw cancelledError();
+    const ffmpeg = await loadEngine();
+    if (cancelled) throw cancelledError();
+    running = ffmpeg;
+
+    const paths = new Set<string>();
+    const ctx: EngineContext = {
+      writeFile: async (name, data) => {
+        const path = ctx.outputPath(name);
+        await ffmpeg.writeFile(path, typeof data === 'string' || data instanceof Uint8Array ? data : await fetchFile(data));
+        return path;
+      },
+      outputPath: (name) => {
+        const path = `${prefix}${name}`;
+        paths.add(path);
+        return path;
+      },
+      readFile: async (path) => await ffmpeg.readFile(path) as Uint8Array,
+      exec: async (args, options = {}) => {
+        const lines: string[] = [];
+        const handleLog = ({ message }: { message: string }) => {
+          lines.push(message);
+          options.onLog?.(message);
+        };
+        const handleProgress = (event: { progress: number; time: number }) => options.onProgress?.(event);
+        ffmpeg.on('log', handleLog);
+        ffmpeg.on('progress', handleProgress);
+        try {
+          const exitCode = await ffmpeg.exec(args);
+          return { exitCode, log: lines.join('\n') };
+        } finally {
+          ffmpeg.off('log', handleLog);
+          ffmpeg.off('progress', handleProgress);
+        }
+      },
+    };
+
+    try {
+      return await task(ctx);
+    } catch (error) {
+      throw cancelled ? cancelledError() : error;
+    } finally {
+      running = null;
+      // Depois de um cancelamento o motor já foi reiniciado e não há o que apagar
+      if (!cancelled) {
+        for (const path of paths) await ffmpeg.deleteFile(path).catch(() => {});
+      }
+    }
+  };
+
+  // A fila segue a execução real: uma tarefa cancelada enquanto esperava não libera a vez antes da hora
+  const execution = queueTail.then(run, run);
+  queueTail = execution.catch(() => {});
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+    execution.then(resolve, reject);
+  });
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    if (running) resetEngine(running);
+    rejectJob(cancelledError());
+  };
+
+  if (signal?.aborted) cancel();
+  else signal?.addEventListener('abort', cancel, { once: true });
+
+  return { label, promise, cancel };
+};
@@ -0,0 +1,138 @@
+import { captureFrame, CropSettings } from './crop';
+import { estimateFrameRate } from './timecode';
+
+/**
+ * Abre o vídeo num elemento fora da tela e captura (com corte) o frame no instante
+ * escolhido a partir da duração — ex.: `d => d - 0.1` para o último frame.
+ */
+export const grabFrame = (
+  url: string,
+  pickTime: (duration: number) => number,
+  crop: CropSettings | undefined,
+  aspect: number
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(video.duration, Math.max(0, pickTime(video.duration)));
+    };
+    video.onseeked = () => {
+      resolve(captureFrame(video, crop, aspect));
+      video.onseeked = null;
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.onerror = () => reject(new Error("Não foi possível ler o vídeo."));
+    video.src = url;
+  });
+};
+
+export interface VideoMetadata {
+  duration: number;
+  width: number;
+  height: number;
+}
+
+// Duração e resolução lidas só dos metadados (sem depender de um card montado)
+export const probeVideo = (url: string): Promise<VideoMetadata> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight });
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.onerror = () => reject(new Error("Não foi possível ler o vídeo."));
+    video.src = url;
+  });
+};
+
+export const probeDuration = async (url: string): Promise<number> => (await probeVideo(url)).duration;
+
+// Espera máxima pelo primeiro frame antes de considerar que o navegador não decodifica o arquivo
+const DECODE_CHECK_TIMEOUT_MS = 8000;
+
+// O navegador consegue mostrar a imagem? (HEVC, ProRes etc. às vezes abrem só o áudio, com videoWidth 0)
+export const canDecodeVideo = (url: string): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const finish = (ok: boolean) => {
+      clearTimeout(timer);
+      video.onloadeddata = null;
+      video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), DECODE_CHECK_TIMEOUT_MS);
+    video.onloadeddata = () => finish(video.videoWidth > 0);
+    video.onerror = () => finish(false);
+    video.src = url;
+  });
+};
+
+// Busca para o frame que já está na tela não apresenta frame novo: depois do `seeked`, espera no máximo isso
+const PRESENTED_FRAME_TIMEOUT_MS = 250;
+
+/**
+ * Espera o frame pedido (depois de uma busca) chegar à tela e devolve o instante dele na mídia.
+ * Com `requestVideoFrameCallback` a captura feita em seguida é a do frame exibido; sem ele, vale o `seeked`.
+ */
+export const waitForPresentedFrame = (video: HTMLVideoElement): Promise<number> => {
+  return new Promise((resolve) => {
+    if (typeof video.requestVideoFrameCallback !== 'function') {
+      video.addEventListener('seeked', () => resolve(video.currentTime), { once: true });
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handle = video.requestVideoFrameCallback((_, metadata) => {
+      clearTimeout(timer);
+      resolve(metadata.mediaTime);
+    });
+    video.addEventListener('seeked', () => {
+      timer = setTimeout(() => {
+        video.cancelVideoFrameCallback(handle);
+        resolve(video.currentTime);
+      }, PRESENTED_FRAME_TIMEOUT_MS);
+    }, { once: true });
+  });
+};
+
+// Frames observados ao medir o fps tocando o vídeo (mudo, fora da tela)
+const FRAME_RATE_SAMPLES = 20;
+const FRAME_RATE_MEASURE_MS = 1500;
+
+/**
+ * Mede o fps tocando um trecho curto e lendo o intervalo entre frames consecutivos
+ * (`requestVideoFrameCallback`). Para arquivos cujo fps a análise do FFmpeg não trouxe.
+ */
+export const measureFrameRate = (video: HTMLVideoElement): Promise<number | undefined> => {
+  return new Promise((resolve) => {
+    if (typeof video.requestVideoFrameCallback !== 'function') { resolve(undefined); return; }
+    const intervals: number[] = [];
+    let last: { frames: number; time: number } | null = null;
+    let handle = 0;
+    const finish = () => {
+      clearTimeout(timer);
+      video.cancelVideoFrameCallback(handle);
+      video.pause();
+      resolve(estimateFrameRate(intervals));
+    };
+    const timer = setTimeout(finish, FRAME_RATE_MEASURE_MS);
+    const onFrame = (_: number, metadata: VideoFrameCallbackMetadata) => {
+      if (last && metadata.presentedFrames === last.frames + 1) intervals.push(metadata.mediaTime - last.time);
+      last = { frames: metadata.presentedFrames, time: metadata.mediaTime };
+      if (intervals.length >= FRAME_RATE_SAMPLES) finish();
+      else handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    video.muted = true;
+    video.play().catch(finish);
+  });
+};
@@ -0,0 +1,62 @@
+// Histórico de desfazer/refazer: cada passo guarda o alvo inteiro antes e depois da mudança.
+// Como o estado é imutável, os snapshots compartilham referências e custam pouco.
+
+export interface HistoryEntry<T> {
+  id: string;
+  label: string;
+  targetId: string;
+  before: T | null;   // null = alvo não existia (criação)
+  after: T | null;    // null = alvo foi removido (exclusão)
+  position: number;   // índice do alvo na lista, para restaurar no mesmo lugar
+  time: number;
+  group?: string;     // passos seguidos do mesmo grupo viram um só (ex.: arrastar um slider)
+}
+
+export interface HistoryStack<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 100;
+// Janela em que mudanças do mesmo grupo são fundidas num único passo
+export const HISTORY_GROUP_WINDOW_MS = 1500;
+
+export const emptyHistory = <T>(): HistoryStack<T> => ({ past: [], future: [] });
+
+// Registra um passo; uma nova ação descarta o que havia para refazer
+export const pushHistory = <T>(stack: HistoryStack<T>, entry: HistoryEntry<T>): HistoryStack<T> => {
+  const last = stack.past[stack.past.length - 1];
+  if (last && entry.group && last.group === entry.group && last.targetId === entry.targetId && entry.time - last.time <= HISTORY_GROUP_WINDOW_MS) {
+    const merged = { ...last, after: entry.after, time: entry.time };
+    return { past: [...stack.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...stack.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+export const takeUndo = <T>(stack: HistoryStack<T>): { entry: HistoryEntry<T>; stack: HistoryStack<T> } | null => {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  return { entry, stack: { past: stack.past.slice(0, -1), future: [entry, ...stack.future] } };
+};
+
+export const takeRedo = <T>(stack: HistoryStack<T>): { entry: HistoryEntry<T>; stack: HistoryStack<T> } | null => {
+  const entry = stack.future[0];
+  if (!entry) return null;
+  return { entry, stack: { past: [...stack.past, entry], future: stack.future.slice(1) } };
+};
+
+// Coloca `value` no lugar do alvo (ou remove, se null), reinserindo na posição original se ele tinha saído
+export const replaceInList = <T extends { id: string }>(list: T[], targetId: string, value: T | null, position: number): T[] => {
+  const index = list.findIndex(item => item.id === targetId);
+  if (value === null) return index === -1 ? list : list.filter(item => item.id !== targetId);
+  if (index !== -1) return list.map(item => item.id === targetId ? value : item);
+  const at = Math.min(Math.max(0, position), list.length);
+  return [...list.slice(0, at), value, ...list.slice(at)];
+};
+
+// Descarta os passos de um alvo (ex.: quando ele muda por fora deste histórico e os snapshots ficam velhos)
+export const discardTarget = <T>(stack: HistoryStack<T>, targetId: string): HistoryStack<T> => {
+  const keep = (entry: HistoryEntry<T>) => entry.targetId !== targetId;
+  if (stack.past.every(keep) && stack.future.every(keep)) return stack;
+  return { past: stack.past.filter(keep), future: stack.future.filter(keep) };
+};
@@ -0,0 +1,180 @@
+// Fila global de tarefas longas (exportações, ZIPs, miniaturas...): roda em segundo plano,
+// uma por vez em cada trilha, com progresso, cancelamento e nova tentativa.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Arquivo gerado pela tarefa; a URL é liberada quando a tarefa sai da lista
+export interface JobOutput {
+  url: string;
+  fileName: string;
+}
+
+export interface JobContext {
+  signal: AbortSignal; // abortado ao cancelar
+  reportProgress: (ratio: number, detail?: string) => void;
+}
+
+export interface JobSpec {
+  label: string;
+  lane?: string;              // tarefas da mesma trilha rodam uma de cada vez (padrão: DEFAULT_LANE)
+  quiet?: boolean;            // sem aviso ao terminar e some da lista quando conclui
+  downloadOnFinish?: boolean; // baixa o arquivo gerado assim que fica pronto
+  run: (ctx: JobContext) => Promise<JobOutput | void>;
+}
+
+export interface Job {
+  id: string;
+  label: string;
+  lane: string;
+  quiet: boolean;
+  status: JobStatus;
+  progress: number; // 0..1
+  detail?: string;  // etapa atual, ex.: "Renderizando..."
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  output?: JobOutput;
+}
+
+export const DEFAULT_LANE = 'geral';
+// Trilha das tarefas que usam o motor FFmpeg (ele já serializa, mas assim a fila mostra a ordem real)
+export const ENGINE_LANE = 'ffmpeg';
+
+const specs = new Map<string, JobSpec>();
+const controllers = new Map<string, AbortController>();
+// Trilha de cada execução em andamento; uma tarefa cancelada só libera a trilha quando o `run` termina de fato
+const runningLanes = new Map<string, string>();
+let jobs: Job[] = [];
+const listeners = new Set<() => void>();
+const finishListeners = new Set<(job: Job) => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+const updateJob = (id: string, changes: Partial<Job>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  emit();
+};
+
+export const getJobs = (): Job[] => jobs;
+
+// Assinaturas no formato do useSyncExternalStore
+export const subscribeJobs = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Avisado quando uma tarefa não silenciosa termina (concluída ou com falha)
+export const onJobFinished = (listener: (job: Job) => void): (() => void) => {
+  finishListeners.add(listener);
+  return () => { finishListeners.delete(listener); };
+};
+
+export const isJobActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+export const downloadJobOutput = (output: JobOutput) => {
+  const link = document.createElement('a');
+  link.href = output.url;
+  link.download = output.fileName;
+  link.click();
+};
+
+// Tempo restante (s) extrapolado do ritmo até agora; null enquanto não há base para estimar
+export const estimateRemaining = (job: Job, now: number): number | null => {
+  if (job.status !== 'running' || !job.startedAt || job.progress < 0.02) return null;
+  const elapsed = (now - job.startedAt) / 1000;
+  return elapsed * (1 - job.progress) / job.progress;
+};
+
+const startJob = async (id: string) => {
+  const spec = specs.get(id);
+  if (!spec) return;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  runningLanes.set(id, jobs.find(j => j.id === id)?.lane ?? spec.lane ?? DEFAULT_LANE);
+  updateJob(id, { status: 'running', progress: 0, detail: undefined, error: undefined, startedAt: Date.now() });
+
+  let lastReport = 0;
+  const reportProgress = (ratio: number, detail?: string) => {
+    if (controller.signal.aborted) return;
+    // Limita as atualizações da lista a ~10 por segundo (o FFmpeg emite progresso a cada frame)
+    const now = performance.now();
+    const job = jobs.find(j => j.id === id);
+    if (now - lastReport < 100 && (detail === undefined || detail === job?.detail)) return;
+    lastReport = now;
+    updateJob(id, { progress: Math.min(1, Math.max(0, ratio)), ...(detail !== undefined ? { detail } : {}) });
+  };
+
+  try {
+    const output = await spec.run({ signal: controller.signal, reportProgress });
+    if (controller.signal.aborted) {
+      if (output) URL.revokeObjectURL(output.url);
+      return;
+    }
+    updateJob(id, { status: 'done', progress: 1, finishedAt: Date.now(), output: output || undefined });
+    if (output && spec.downloadOnFinish) downloadJobOutput(output);
+    if (spec.quiet) dismissJob(id);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`Erro na tarefa "${spec.label}":`, error);
+    updateJob(id, { status: 'failed', finishedAt: Date.now(), error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    controllers.delete(id);
+    runningLanes.delete(id);
+    const job = jobs.find(j => j.id === id);
+    if (job && !spec.quiet && (job.status === 'done' || job.status === 'failed')) finishListeners.forEach(listener => listener(job));
+    pumpQueue();
+  }
+};
+
+// Inicia a próxima tarefa de cada trilha livre, na ordem em que foram enfileiradas
+const pumpQueue = () => {
+  const busy = new Set(runningLanes.values());
+  jobs.forEach(job => {
+    if (job.status !== 'queued' || busy.has(job.lane)) return;
+    busy.add(job.lane);
+    startJob(job.id);
+  });
+};
+
+export const enqueueJob = (spec: JobSpec): string => {
+  const id = crypto.randomUUID();
+  specs.set(id, spec);
+  jobs = [...jobs, { id, label: spec.label, lane: spec.lane ?? DEFAULT_LANE, quiet: !!spec.quiet, status: 'queued', progress: 0, createdAt: Date.now() }];
+  emit();
+  pumpQueue();
+  return id;
+};
+
+export const cancelJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || !isJobActive(job)) return;
+  controllers.get(id)?.abort();
+  updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  if (job.quiet) dismissJob(id);
+  // A próxima da trilha começa no `finally` de startJob, depois que a execução cancelada encerrar
+};
+
+// Roda de novo a mesma tarefa, no fim da fila
+export const retryJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || isJobActive(job)) return;
+  if (job.output) URL.revokeObjectURL(job.output.url);
+  jobs = [...jobs.filter(j => j.id !== id), { ...job, status: 'queued', progress: 0, detail: undefined, error: undefined, output: undefined, startedAt: undefined, finishedAt: undefined, createdAt: Date.now() }];
+  emit();
+  pumpQueue();
+};
+
+export const dismissJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job) return;
+  if (isJobActive(job)) cancelJob(id);
+  if (job.output) URL.revokeObjectURL(job.output.url);
+  specs.delete(id);
+  jobs = jobs.filter(j => j.id !== id);
+  emit();
+};
+
+export const clearFinishedJobs = () => {
+  jobs.filter(job => !isJobActive(job)).forEach(job => dismissJob(job.id));
+};
@@ -0,0 +1,138 @@
+import { probeVideo } from './frames';
+import { GalleryItem, MediaInfo, VideoItem } from './project';
+import { displaySize } from './mediaProbe';
+import { DEFAULT_FRAME_RATE, timeToFrame } from './timecode';
+
+// Bytes lidos do início e do fim do arquivo para a impressão digital (rápido mesmo em vídeos grandes)
+const FINGERPRINT_CHUNK = 64 * 1024;
+// Diferença de duração tolerada ao comparar um candidato com o original
+const DURATION_TOLERANCE = 0.1;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 de início + fim + tamanho: distingue arquivos renomeados e reencodes com o mesmo nome
+export const computeFingerprint = async (file: File): Promise<string> => {
+  const head = file.slice(0, FINGERPRINT_CHUNK);
+  const tail = file.size > FINGERPRINT_CHUNK * 2 ? file.slice(file.size - FINGERPRINT_CHUNK) : new Blob();
+  const data = await new Blob([head, tail, String(file.size)]).arrayBuffer();
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+// Registra o que é preciso para reconhecer o arquivo depois (metadados falhos não impedem o import)
+export const describeMedia = async (file: File, url?: string): Promise<MediaInfo> => {
+  const info: MediaInfo = { fileName: file.name, size: file.size, type: file.type, lastModified: file.lastModified };
+  const objectUrl = url ?? URL.createObjectURL(file);
+  try {
+    const [metadata, fingerprint] = await Promise.all([
+      probeVideo(objectUrl).catch(() => null),
+      computeFingerprint(file).catch(() => undefined),
+    ]);
+    if (metadata) Object.assign(info, metadata);
+    info.fingerprint = fingerprint;
+  } finally {
+    if (!url) URL.revokeObjectURL(objectUrl);
+  }
+  return info;
+};
+
+// Resolução do arquivo original como exibido (análise do FFmpeg ou metadados do navegador)
+export const getSourceSize = (video: VideoItem): { width: number; height: number } | undefined => {
+  const probe = video.media?.probe;
+  if (probe && probe.width > 0) return displaySize(probe);
+  return video.media?.width && video.media.height ? { width: video.media.width, height: video.media.height } : undefined;
+};
+
+// Origem de uma captura para a galeria: clipe, instante, frame e resolução do original
+export const getCaptureOrigin = (
+  video: VideoItem,
+  time: number,
+  frameRate?: number
+): Pick<GalleryItem, 'sourceVideoId' | 'captureTime' | 'frameNumber' | 'sourceWidth' | 'sourceHeight'> => {
+  const size = getSourceSize(video);
+  return {
+    sourceVideoId: video.id,
+    captureTime: time,
+    frameNumber: timeToFrame(time, frameRate || video.media?.probe?.frameRate || DEFAULT_FRAME_RATE),
+    sourceWidth: size?.width,
+    sourceHeight: size?.height,
+  };
+};
+
+// Clipes offline que vieram do mesmo arquivo são religados juntos
+export const offlineMediaKey = (video: VideoItem): string => {
+  const m = video.media;
+  if (!m) return `clip:${video.id}`;
+  return m.fingerprint ?? `${m.fileName.toLowerCase()}:${m.size}`;
+};
+
+export interface MediaMatch {
+  file: File;
+  info: MediaInfo;
+  warnings: string[];
+}
+
+const formatSeconds = (s: number) => `${s.toFixed(1)}s`;
+
+// Avisos de um candidato em relação ao arquivo registrado (não impedem o uso)
+export const compareMedia = (recorded: MediaInfo | undefined, candidate: MediaInfo): string[] => {
+  if (!recorded) return [];
+  const warnings: string[] = [];
+  if (recorded.duration !== undefined && candidate.duration !== undefined && Math.abs(recorded.duration - candidate.duration) > DURATION_TOLERANCE) {
+    warnings.push(`Duração diferente: ${formatSeconds(candidate.duration)} (original ${formatSeconds(recorded.duration)})`);
+  }
+  if (recorded.width && recorded.height && candidate.width && candidate.height && (recorded.width !== candidate.width || recorded.height !== candidate.height)) {
+    warnings.push(`Resolução diferente: ${candidate.width}×${candidate.height} (original ${recorded.width}×${recorded.height})`);
+  }
+  if (recorded.fingerprint && candidate.fingerprint && recorded.fingerprint !== candidate.fingerprint && warnings.length === 0) {
+    warnings.push('Conteúdo diferente do arquivo original');
+  }
+  return warnings;
+};
+
+// Pontuação de semelhança; impressão digital igual decide sozinha
+const scoreCandidate = (recorded: MediaInfo | undefined, fallbackName: string, candidate: MediaInfo): number => {
+  if (recorded?.fingerprint && recorded.fingerprint === candidate.fingerprint) return 100;
+  let score = 0;
+  if ((recorded?.fileName ?? fallbackName).toLowerCase() === candidate.fileName.toLowerCase()) score += 10;
+  if (recorded && recorded.size === candidate.size) score += 10;
+  if (recorded?.duration !== undefined && candidate.duration !== undefined && Math.abs(recorded.duration - candidate.duration) <= DURATION_TOLERANCE) score += 5;
+  return score;
+};
+
+/**
+ * Procura entre os arquivos escolhidos (ou de uma pasta) o que corresponde a cada grupo de clipes offline.
+ * Só candidatos com nome ou tamanho iguais são analisados a fundo, então pastas grandes continuam rápidas;
+ * sem nenhum desses, todos os vídeos são comparados pela impressão digital.
+ */
+export const matchOfflineMedia = async (
+  groups: { key: string; recorded?: MediaInfo; clipName: string }[],
+  files: File[]
+): Promise<Map<string, MediaMatch>> => {
+  const videos = files.filter(f => f.type.startsWith('video/') || /\.(mp4|mov|m4v|webm|mkv|avi)$/i.test(f.name));
+  const described = new Map<File, Promise<MediaInfo>>();
+  const describe = (file: File) => {
+    if (!described.has(file)) described.set(file, describeMedia(file));
+    return described.get(file)!;
+  };
+
+  const matches = new Map<string, MediaMatch>();
+  const used = new Set<File>();
+  for (const group of groups) {
+    const name = (group.recorded?.fileName ?? group.clipName).toLowerCase();
+    const likely = videos.filter(f => !used.has(f) && (f.name.toLowerCase() === name || f.size === group.recorded?.size));
+    const pool = likely.length > 0 ? likely : (group.recorded?.fingerprint ? videos.filter(f => !used.has(f)) : []);
+
+    let best: { file: File; info: MediaInfo; score: number } | null = null;
+    for (const file of pool) {
+      const info = await describe(file);
+      const score = scoreCandidate(group.recorded, group.clipName, info);
+      if (score >= 10 && (!best || score > best.score)) best = { file, info, score };
+    }
+    if (best) {
+      used.add(best.file);
+      matches.set(group.key, { file: best.file, info: best.info, warnings: compareMedia(group.recorded, best.info) });
+    }
+  }
+  return matches;
+};
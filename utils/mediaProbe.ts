@@ -0,0 +1,160 @@
+// Análise de cada clipe importado (formato, codecs, resolução, fps...) a partir do log do FFmpeg,
+// e os avisos que ela gera em relação ao resto do projeto e à resolução de saída.
+import { CropSettings, getCropRect } from './crop';
+import { EngineContext, runEngineJob } from './ffmpegEngine';
+import { enqueueJob, ENGINE_LANE } from './jobQueue';
+
+export interface MediaProbe {
+  container: string;   // demuxer do FFmpeg, ex.: "mov", "matroska"
+  videoCodec: string;  // ex.: "h264", "hevc", "vp9"
+  width: number;       // resolução codificada (antes da rotação)
+  height: number;
+  frameRate: number;   // 0 quando o arquivo não informa
+  bitrate: number;     // kb/s do arquivo inteiro; 0 quando o arquivo não informa
+  audioCodec?: string; // ausente em clipes sem áudio
+  audioChannels: number;
+  rotation: number;    // graus no sentido horário (0, 90, 180, 270)
+  duration: number;
+}
+
+// Diferença de fps tolerada ao comparar clipes (29.97 e 30 contam como iguais)
+const FRAME_RATE_TOLERANCE = 0.05;
+
+const CHANNEL_LAYOUTS: Record<string, number> = { mono: 1, stereo: 2, '2.1': 3, quad: 4, '5.0': 5, '5.1': 6, '6.1': 7, '7.1': 8 };
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '.mp4';
+};
+
+// Lê a saída de `ffmpeg -i` (só a primeira stream de vídeo e a primeira de áudio contam)
+export const parseProbeLog = (log: string): MediaProbe => {
+  const duration = log.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const video = log.match(/Stream #\d+:\d+.*Video:\s*(\w+).*/);
+  const audio = log.match(/Stream #\d+:\d+.*Audio:\s*(\w+).*/);
+  const size = video?.[0].match(/,\s*(\d{2,5})x(\d{2,5})/);
+  const fps = video?.[0].match(/(\d+(?:\.\d+)?)\s*fps/) ?? video?.[0].match(/(\d+(?:\.\d+)?)\s*tbr/);
+  const layout = audio?.[0].match(/Hz,\s*([^,]+)/)?.[1].trim().replace(/\(.*\)$/, '');
+  const channels = layout?.match(/^(\d+) channels$/);
+
+  // A tag "rotate" vem em graus horários; a displaymatrix, em graus anti-horários
+  const rotateTag = log.match(/rotate\s*:\s*(-?\d+)/);
+  const displayMatrix = log.match(/rotation of (-?\d+(?:\.\d+)?) degrees/);
+  const rotation = rotateTag ? Number(rotateTag[1]) : displayMatrix ? -parseFloat(displayMatrix[1]) : 0;
+
+  return {
+    container: log.match(/Input #\d+,\s*([^,\s]+)/)?.[1] ?? '',
+    videoCodec: video?.[1] ?? '',
+    width: size ? Number(size[1]) : 0,
+    height: size ? Number(size[2]) : 0,
+    frameRate: fps ? parseFloat(fps[1]) : 0,
+    bitrate: Number(log.match(/bitrate:\s*(\d+)\s*kb\/s/)?.[1] ?? 0),
+    audioCodec: audio?.[1],
+    audioChannels: !layout ? 0 : channels ? Number(channels[1]) : CHANNEL_LAYOUTS[layout] ?? 0,
+    rotation: ((Math.round(rotation / 90) * 90) % 360 + 360) % 360,
+    duration: duration ? Number(duration[1]) * 3600 + Number(duration[2]) * 60 + parseFloat(duration[3]) : 0,
+  };
+};
+
+export const probeFile = async (ctx: EngineContext, path: string): Promise<MediaProbe> => {
+  // Sem arquivo de saída o FFmpeg retorna erro, mas o log das streams já foi emitido
+  const { log } = await ctx.exec(['-hide_banner', '-i', path]);
+  return parseProbeLog(log);
+};
+
+// Uma análise por arquivo na sessão: desfazer ou reabrir o projeto não roda o FFmpeg de novo
+const probes = new WeakMap<File, Promise<MediaProbe>>();
+
+// Enfileira a análise do arquivo no motor (tarefa silenciosa na fila)
+export const requestMediaProbe = (file: File): Promise<MediaProbe> => {
+  const cached = probes.get(file);
+  if (cached) return cached;
+
+  const promise = new Promise<MediaProbe>((resolve, reject) => {
+    enqueueJob({
+      label: `Analisar ${file.name}`,
+      lane: ENGINE_LANE,
+      quiet: true,
+      run: async ({ signal }) => {
+        signal.addEventListener('abort', () => reject(new Error('Análise cancelada.')), { once: true });
+        try {
+          const probe = await runEngineJob(`Analisar ${file.name}`, async ctx => probeFile(ctx, await ctx.writeFile(`probe${extensionOf(file.name)}`, file)), signal).promise;
+          if (!probe.videoCodec) throw new Error(`Nenhuma stream de vídeo encontrada em "${file.name}".`);
+          resolve(probe);
+        } catch (error) {
+          reject(error);
+          throw error;
+        }
+      }
+    });
+  });
+  probes.set(file, promise);
+  promise.catch(() => probes.delete(file));
+  return promise;
+};
+
+// Tamanho como o vídeo aparece na tela (a rotação de 90°/270° troca os lados)
+export const displaySize = (probe: MediaProbe) =>
+  probe.rotation % 180 === 0 ? { width: probe.width, height: probe.height } : { width: probe.height, height: probe.width };
+
+const sizeKey = (probe: MediaProbe) => {
+  const { width, height } = displaySize(probe);
+  return `${width}×${height}`;
+};
+
+const mostCommon = <T>(values: T[], same: (a: T, b: T) => boolean): T | undefined => {
+  let best: T | undefined;
+  let bestCount = 0;
+  values.forEach(value => {
+    const count = values.filter(other => same(value, other)).length;
+    if (count > bestCount) { best = value; bestCount = count; }
+  });
+  return best;
+};
+
+// Padrão do projeto: fps e resolução mais comuns entre os clipes já analisados
+export interface ProjectMediaProfile {
+  frameRate?: number;
+  size?: string;
+  count: number;
+}
+
+export const getProjectMediaProfile = (probes: MediaProbe[]): ProjectMediaProfile => ({
+  frameRate: mostCommon(probes.map(p => p.frameRate).filter(fps => fps > 0), (a, b) => Math.abs(a - b) <= FRAME_RATE_TOLERANCE),
+  size: mostCommon(probes.filter(p => p.width > 0).map(sizeKey), (a, b) => a === b),
+  count: probes.length,
+});
+
+export const formatFrameRate = (fps: number) => fps > 0 ? `${Number(fps.toFixed(2))} fps` : '? fps';
+
+/**
+ * Avisos de um clipe: fps ou resolução diferentes da maioria do projeto e origem menor que a saída
+ * (considerando o corte: com zoom, a área usada é menor que o arquivo).
+ */
+export const getProbeWarnings = (
+  probe: MediaProbe,
+  profile: ProjectMediaProfile,
+  target: { width: number; height: number },
+  crop: CropSettings | undefined
+): string[] => {
+  const warnings: string[] = [];
+  if (profile.count > 1 && profile.frameRate !== undefined && probe.frameRate > 0 && Math.abs(probe.frameRate - profile.frameRate) > FRAME_RATE_TOLERANCE) {
+    warnings.push(`Taxa de quadros diferente do projeto: ${formatFrameRate(probe.frameRate)} (maioria ${formatFrameRate(profile.frameRate)}).`);
+  }
+  if (profile.count > 1 && profile.size !== undefined && probe.width > 0 && sizeKey(probe) !== profile.size) {
+    warnings.push(`Resolução diferente do projeto: ${sizeKey(probe)} (maioria ${profile.size}).`);
+  }
+
+  const { width, height } = displaySize(probe);
+  if (width > 0 && height > 0) {
+    const aspect = target.width / target.height;
+    // Sem corte a exportação encaixa o vídeo inteiro (letterbox); com corte, a janela recortada preenche o quadro
+    const upscale = crop
+      ? target.width / getCropRect(crop, width, height, aspect).width
+      : Math.min(target.width / width, target.height / height);
+    if (upscale > 1.01) {
+      warnings.push(`Menor que a saída de ${target.width}×${target.height}: será ampliado ${upscale.toFixed(1).replace('.', ',')}×.`);
+    }
+  }
+  return warnings;
+};
@@ -0,0 +1,59 @@
+// Arquivos que o navegador não decodifica (HEVC, ProRes, AVI...) ganham um intermediário H.264
+// só para a edição; a exportação continua lendo o original.
+import { canDecodeVideo } from './frames';
+import { runEngineJob } from './ffmpegEngine';
+import { enqueueJob, ENGINE_LANE } from './jobQueue';
+import { extensionOf, probeFile } from './mediaProbe';
+
+const playable = new WeakMap<File, Promise<boolean>>();
+
+// Testa uma vez por arquivo na sessão se o navegador mostra a imagem
+export const checkPlayback = (file: File): Promise<boolean> => {
+  let check = playable.get(file);
+  if (!check) {
+    const url = URL.createObjectURL(file);
+    check = canDecodeVideo(url).finally(() => URL.revokeObjectURL(url));
+    playable.set(file, check);
+  }
+  return check;
+};
+
+const intermediateName = (file: File) => {
+  const dot = file.name.lastIndexOf('.');
+  return `${dot > 0 ? file.name.slice(0, dot) : file.name}_edicao.mp4`;
+};
+
+/**
+ * Enfileira a conversão do arquivo para H.264/AAC em MP4 (tarefa visível na fila).
+ * `onReady` é chamado com o intermediário sempre que a tarefa conclui, inclusive numa nova tentativa.
+ */
+export const enqueuePlaybackConversion = (file: File, onReady: (intermediate: File) => void): string => enqueueJob({
+  label: `Converter ${file.name} para edição`,
+  lane: ENGINE_LANE,
+  run: async ({ signal, reportProgress }) => {
+    reportProgress(0, 'Carregando motor de vídeo...');
+    const intermediate = await runEngineJob(`Converter ${file.name}`, async ctx => {
+      const input = await ctx.writeFile(`source${extensionOf(file.name)}`, file);
+      const { duration } = await probeFile(ctx, input);
+      const output = ctx.outputPath('playback.mp4');
+      const { exitCode } = await ctx.exec([
+        '-i', input,
+        '-map', '0:v:0', '-map', '0:a:0?',
+        // Dimensões pares e yuv420p: o mínimo que todo decodificador H.264 de navegador aceita
+        '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p',
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20',
+        '-c:a', 'aac', '-b:a', '192k',
+        '-movflags', '+faststart',
+        output
+      ], {
+        onProgress: ({ time }) => {
+          if (duration > 0) reportProgress(time / 1_000_000 / duration, 'Convertendo...');
+        },
+      });
+      if (exitCode !== 0) throw new Error(`O FFmpeg não conseguiu converter "${file.name}" (código ${exitCode}).`);
+      const data = await ctx.readFile(output);
+      return new File([data], intermediateName(file), { type: 'video/mp4', lastModified: Date.now() });
+    }, signal).promise;
+    if (!signal.aborted) onReady(intermediate);
+  }
+});
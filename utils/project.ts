@@ -0,0 +1,431 @@
+import { CropSettings } from './crop';
+import type { MediaProbe } from './mediaProbe';
+import { getClipDuration, layoutTimeline, TransitionSettings, TransitionType, TrimPoints, TRANSITION_OPTIONS } from './timeline';
+
+// --- Modelo ---
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+export type GalleryItemType = 'inicio' | 'final' | 'manual' | 'scene';
+const GALLERY_ITEM_TYPES: GalleryItemType[] = ['inicio', 'final', 'manual', 'scene'];
+
+// O que se sabe do arquivo original de um clipe; serve para reencontrá-lo quando fica offline
+export interface MediaInfo {
+  fileName: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  duration?: number;
+  width?: number;
+  height?: number;
+  fingerprint?: string; // hash do início e do fim do arquivo (ver utils/media)
+  probe?: MediaProbe;   // análise do FFmpeg (ver utils/mediaProbe), preenchida em segundo plano
+}
+
+export interface VideoItem extends TrimPoints {
+  id: string;
+  // Sem file/url o clipe está offline: a mídia não foi restaurada e precisa ser religada
+  file?: File;
+  url?: string;          // do intermediário quando houver, senão do próprio arquivo
+  playbackFile?: File;   // cópia em H.264 para o navegador; a exportação usa sempre `file`
+  proxyFile?: File;      // cópia em baixa resolução só para a prévia dos cards (ver utils/proxy)
+  proxyUrl?: string;
+  media?: MediaInfo;
+  name: string;
+  crop?: CropSettings;
+  transition?: TransitionSettings; // transição para o próximo clipe
+  sceneCuts?: number[];  // cortes detectados (segundos da origem), marcados no scrubber do card
+}
+
+export interface GalleryItem {
+  id: string;
+  src: string; // PNG em data URL
+  type: GalleryItemType;
+  videoName: string; // nome do clipe na hora da captura
+  createdAt: number;
+  // Origem da captura (ausente nas capturas antigas)
+  sourceVideoId?: string;
+  captureTime?: number;  // segundos da origem
+  frameNumber?: number;
+  sourceWidth?: number;  // resolução do arquivo original, como exibido
+  sourceHeight?: number;
+  // Anotações feitas na galeria
+  rating?: number;       // 1 a 5 estrelas; ausente = sem avaliação
+  tags?: string[];
+  notes?: string;
+}
+
+export const MAX_GALLERY_RATING = 5;
+
+// Captura a caminho da galeria (id e data são dados ao adicionar)
+export type NewGalleryItem = Omit<GalleryItem, 'id' | 'createdAt'>;
+
+export interface Project {
+  id: string;
+  name: string;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+  lastModified: number;
+  archived?: boolean; // some do dashboard, sem apagar nada
+  videos: VideoItem[];
+  galleryItems: GalleryItem[];
+}
+
+export type OnlineVideoItem = VideoItem & { file: File; url: string };
+
+export const isOnline = (video: VideoItem): video is OnlineVideoItem =>
+  video.file !== undefined && video.url !== undefined;
+
+// Configurações de um clipe que sobrevivem fora da memória (sem File/URL)
+export type VideoSettings = Pick<VideoItem, 'name' | 'crop' | 'inPoint' | 'outPoint' | 'transition' | 'sceneCuts'>;
+
+// Registro salvo no IndexedDB: o vídeo aponta para a mídia guardada à parte (sem mediaId = offline)
+export interface StoredVideo extends VideoSettings {
+  id: string;
+  mediaId?: string;
+  playbackMediaId?: string; // intermediário de edição guardado à parte, como a mídia
+  proxyMediaId?: string;
+  media?: MediaInfo;
+}
+
+export interface StoredProject extends Omit<Project, 'videos'> {
+  schemaVersion: number;
+  videos: StoredVideo[];
+}
+
+// --- Versões e migrações ---
+
+/**
+ * Versão atual do formato salvo. Histórico:
+ * 1 — registros sem `schemaVersion` (antes do versionamento);
+ * 2 — trims e transições normalizados, `schemaVersion` gravado em cada registro.
+ *
+ * Campos opcionais novos (clipes offline, `archived`, análise da mídia, intermediário, proxy, cortes
+ * de cena, origem e anotações das capturas) não mudam a versão: os validadores já aceitam a ausência.
+ * A versão só sobe junto com uma migração que transforme os dados.
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Cada entrada leva um registro da versão `n` para `n + 1`; mexe só nos campos comuns
+// a todos os formatos de projeto (IndexedDB e pacote .ffproj)
+const MIGRATIONS: Record<number, (raw: RawRecord) => RawRecord> = {
+  1: (raw) => ({
+    ...raw,
+    galleryItems: Array.isArray(raw.galleryItems) ? raw.galleryItems : [],
+    videos: Array.isArray(raw.videos) ? raw.videos.map(video => {
+      if (!isRecord(video)) return video;
+      const next = { ...video };
+      // Trims invertidos ou não numéricos voltam a ser "sem trim"
+      const valid = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+      if (!valid(next.inPoint)) delete next.inPoint;
+      if (!valid(next.outPoint)) delete next.outPoint;
+      if (typeof next.inPoint === 'number' && typeof next.outPoint === 'number' && next.inPoint >= next.outPoint) {
+        delete next.inPoint;
+        delete next.outPoint;
+      }
+      if (next.transition === null) delete next.transition;
+      return next;
+    }) : raw.videos,
+  }),
+};
+
+// Leva um registro de qualquer versão anterior até a atual
+export const migrateProjectRecord = (raw: unknown): { record: RawRecord; migrated: boolean } => {
+  if (!isRecord(raw)) throw new Error('Projeto inválido: o registro não é um objeto.');
+  const from = raw.schemaVersion === undefined ? 1 : raw.schemaVersion;
+  if (typeof from !== 'number' || !Number.isInteger(from) || from < 1) {
+    throw new Error(`Projeto inválido: versão de esquema "${String(raw.schemaVersion)}" desconhecida.`);
+  }
+  if (from > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Projeto salvo por uma versão mais nova do app (esquema ${from}; este app lê até o ${PROJECT_SCHEMA_VERSION}).`);
+  }
+
+  let record = raw;
+  for (let version = from; version < PROJECT_SCHEMA_VERSION; version++) {
+    record = MIGRATIONS[version](record);
+  }
+  return { record: { ...record, schemaVersion: PROJECT_SCHEMA_VERSION }, migrated: from !== PROJECT_SCHEMA_VERSION };
+};
+
+// --- Validação ---
+
+// Erros apontam o caminho do campo, ex.: `videos[2].crop.scale: esperado um número`
+const fail = (path: string, message: string): never => {
+  throw new Error(`Projeto inválido — ${path}: ${message}.`);
+};
+
+export const readString = (raw: RawRecord, key: string, path: string): string => {
+  const value = raw[key];
+  return typeof value === 'string' ? value : fail(`${path}${key}`, 'esperado um texto');
+};
+
+export const readNumber = (raw: RawRecord, key: string, path: string): number => {
+  const value = raw[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fail(`${path}${key}`, 'esperado um número');
+};
+
+export const readOptionalNumber = (raw: RawRecord, key: string, path: string): number | undefined =>
+  raw[key] === undefined ? undefined : readNumber(raw, key, path);
+
+export const readRecord = (value: unknown, path: string): RawRecord =>
+  isRecord(value) ? value : fail(path, 'esperado um objeto');
+
+export const readArray = (raw: RawRecord, key: string, path: string): unknown[] => {
+  const value = raw[key];
+  return Array.isArray(value) ? value : fail(`${path}${key}`, 'esperada uma lista');
+};
+
+export const readAspectRatio = (raw: RawRecord, path: string): AspectRatio => {
+  const value = raw.aspectRatio;
+  return ASPECT_RATIOS.includes(value as AspectRatio)
+    ? value as AspectRatio
+    : fail(`${path}aspectRatio`, `esperado ${ASPECT_RATIOS.join(', ')}; veio "${String(value)}"`);
+};
+
+export const readGalleryType = (raw: RawRecord, path: string): GalleryItemType => {
+  const value = raw.type;
+  return GALLERY_ITEM_TYPES.includes(value as GalleryItemType)
+    ? value as GalleryItemType
+    : fail(`${path}type`, `tipo de captura "${String(value)}" desconhecido`);
+};
+
+// Nome, corte, trims, transição e cortes de cena de um clipe — comuns ao registro salvo e ao pacote
+export const readVideoSettings = (raw: RawRecord, path: string): VideoSettings => {
+  const settings: VideoSettings = { name: readString(raw, 'name', path) };
+
+  if (raw.crop !== undefined) {
+    const crop = readRecord(raw.crop, `${path}crop`);
+    settings.crop = {
+      scale: readNumber(crop, 'scale', `${path}crop.`),
+      x: readNumber(crop, 'x', `${path}crop.`),
+      y: readNumber(crop, 'y', `${path}crop.`),
+    };
+    if (settings.crop.scale <= 0) fail(`${path}crop.scale`, 'o zoom deve ser positivo');
+  }
+
+  settings.inPoint = readOptionalNumber(raw, 'inPoint', path);
+  settings.outPoint = readOptionalNumber(raw, 'outPoint', path);
+  if (settings.inPoint !== undefined && settings.outPoint !== undefined && settings.inPoint >= settings.outPoint) {
+    fail(`${path}inPoint`, 'o ponto de entrada deve vir antes do ponto de saída');
+  }
+
+  if (raw.transition !== undefined) {
+    const transition = readRecord(raw.transition, `${path}transition`);
+    const type = transition.type as TransitionType;
+    if (!TRANSITION_OPTIONS.some(option => option.type === type)) fail(`${path}transition.type`, `transição "${String(type)}" desconhecida`);
+    settings.transition = { type, duration: readNumber(transition, 'duration', `${path}transition.`) };
+  }
+
+  if (raw.sceneCuts !== undefined) {
+    settings.sceneCuts = readArray(raw, 'sceneCuts', path).map((value, i) => {
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fail(`${path}sceneCuts[${i}]`, 'esperado um instante em segundos');
+    });
+  }
+
+  return settings;
+};
+
+// Instante, frame e resolução de origem de uma captura — comuns ao registro salvo e ao pacote
+export const readGalleryCapture = (raw: RawRecord, path: string): Pick<GalleryItem, 'captureTime' | 'frameNumber' | 'sourceWidth' | 'sourceHeight'> => ({
+  captureTime: readOptionalNumber(raw, 'captureTime', path),
+  frameNumber: readOptionalNumber(raw, 'frameNumber', path),
+  sourceWidth: readOptionalNumber(raw, 'sourceWidth', path),
+  sourceHeight: readOptionalNumber(raw, 'sourceHeight', path),
+});
+
+// Avaliação, tags e notas de uma captura — comuns ao registro salvo e ao pacote
+export const readGalleryAnnotations = (raw: RawRecord, path: string): Pick<GalleryItem, 'rating' | 'tags' | 'notes'> => {
+  const rating = readOptionalNumber(raw, 'rating', path);
+  if (rating !== undefined && !(Number.isInteger(rating) && rating >= 1 && rating <= MAX_GALLERY_RATING)) {
+    fail(`${path}rating`, `esperado um inteiro de 1 a ${MAX_GALLERY_RATING}`);
+  }
+  return {
+    rating,
+    tags: raw.tags === undefined ? undefined : readArray(raw, 'tags', path).map((value, i) => {
+      return typeof value === 'string' ? value : fail(`${path}tags[${i}]`, 'esperado um texto');
+    }),
+    notes: raw.notes === undefined ? undefined : readString(raw, 'notes', path),
+  };
+};
+
+const readMediaProbe = (value: unknown, path: string): MediaProbe => {
+  const raw = readRecord(value, path.replace(/\.$/, ''));
+  return {
+    container: readString(raw, 'container', path),
+    videoCodec: readString(raw, 'videoCodec', path),
+    width: readNumber(raw, 'width', path),
+    height: readNumber(raw, 'height', path),
+    frameRate: readNumber(raw, 'frameRate', path),
+    bitrate: readNumber(raw, 'bitrate', path),
+    audioCodec: raw.audioCodec === undefined ? undefined : readString(raw, 'audioCodec', path),
+    audioChannels: readNumber(raw, 'audioChannels', path),
+    rotation: readNumber(raw, 'rotation', path),
+    duration: readNumber(raw, 'duration', path),
+  };
+};
+
+export const readMediaInfo = (value: unknown, path: string): MediaInfo => {
+  const raw = readRecord(value, path.replace(/\.$/, ''));
+  return {
+    fileName: readString(raw, 'fileName', path),
+    size: readNumber(raw, 'size', path),
+    type: readString(raw, 'type', path),
+    lastModified: readNumber(raw, 'lastModified', path),
+    duration: readOptionalNumber(raw, 'duration', path),
+    width: readOptionalNumber(raw, 'width', path),
+    height: readOptionalNumber(raw, 'height', path),
+    fingerprint: raw.fingerprint === undefined ? undefined : readString(raw, 'fingerprint', path),
+    probe: raw.probe === undefined ? undefined : readMediaProbe(raw.probe, `${path}probe.`),
+  };
+};
+
+/**
+ * Migra e valida um projeto lido do IndexedDB. Lança um Error com o caminho do campo
+ * problemático; `migrated` indica que o registro deve ser regravado no formato atual.
+ */
+export const parseStoredProject = (raw: unknown): { project: StoredProject; migrated: boolean } => {
+  const { record, migrated } = migrateProjectRecord(raw);
+
+  const project: StoredProject = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id: readString(record, 'id', ''),
+    name: readString(record, 'name', ''),
+    aspectRatio: readAspectRatio(record, ''),
+    createdAt: readNumber(record, 'createdAt', ''),
+    lastModified: readNumber(record, 'lastModified', ''),
+    archived: record.archived === undefined || typeof record.archived === 'boolean'
+      ? record.archived as boolean | undefined
+      : fail('archived', 'esperado verdadeiro ou falso'),
+    videos: readArray(record, 'videos', '').map((value, i) => {
+      const path = `videos[${i}].`;
+      const video = readRecord(value, `videos[${i}]`);
+      return {
+        ...readVideoSettings(video, path),
+        id: readString(video, 'id', path),
+        mediaId: video.mediaId === undefined ? undefined : readString(video, 'mediaId', path),
+        playbackMediaId: video.playbackMediaId === undefined ? undefined : readString(video, 'playbackMediaId', path),
+        proxyMediaId: video.proxyMediaId === undefined ? undefined : readString(video, 'proxyMediaId', path),
+        media: video.media === undefined ? undefined : readMediaInfo(video.media, `${path}media.`),
+      };
+    }),
+    galleryItems: readArray(record, 'galleryItems', '').map((value, i) => {
+      const path = `galleryItems[${i}].`;
+      const item = readRecord(value, `galleryItems[${i}]`);
+      return {
+        id: readString(item, 'id', path),
+        src: readString(item, 'src', path),
+        type: readGalleryType(item, path),
+        videoName: readString(item, 'videoName', path),
+        createdAt: readNumber(item, 'createdAt', path),
+        sourceVideoId: item.sourceVideoId === undefined ? undefined : readString(item, 'sourceVideoId', path),
+        ...readGalleryCapture(item, path),
+        ...readGalleryAnnotations(item, path),
+      };
+    }),
+  };
+  return { project, migrated };
+};
+
+// --- Consultas do dashboard ---
+
+export type ProjectSortKey = 'lastModified' | 'createdAt' | 'name' | 'duration';
+
+export const PROJECT_SORT_OPTIONS: { key: ProjectSortKey; label: string }[] = [
+  { key: 'lastModified', label: 'Editados recentemente' },
+  { key: 'createdAt', label: 'Criados recentemente' },
+  { key: 'name', label: 'Nome' },
+  { key: 'duration', label: 'Duração' },
+];
+
+// Duração final (com trims e transições) a partir dos dados guardados de cada arquivo, sem abrir os vídeos
+export const getProjectDuration = (project: Project): number =>
+  layoutTimeline(project.videos.map(v => ({ duration: getClipDuration(v, v.media?.duration ?? 0), transition: v.transition }))).total;
+
+// Datas e duração do maior para o menor; nome em ordem alfabética
+export const sortProjects = (projects: Project[], key: ProjectSortKey): Project[] => {
+  const durations = key === 'duration' ? new Map(projects.map(p => [p.id, getProjectDuration(p)])) : null;
+  return [...projects].sort((a, b) => {
+    if (key === 'name') return a.name.localeCompare(b.name, 'pt-BR', { sensitivity: 'base', numeric: true });
+    if (durations) return durations.get(b.id)! - durations.get(a.id)!;
+    return b[key] - a[key];
+  });
+};
+
+// --- Consultas da galeria ---
+
+export interface GalleryFilter {
+  query: string;                  // busca nas notas
+  type: GalleryItemType | 'all';
+  videoId: string | 'all';        // clipe de origem
+  minRating: number;              // 0 = qualquer avaliação
+  tag: string | 'all';
+}
+
+export const EMPTY_GALLERY_FILTER: GalleryFilter = { query: '', type: 'all', videoId: 'all', minRating: 0, tag: 'all' };
+
+export const isGalleryFilterActive = (filter: GalleryFilter): boolean =>
+  filter.query.trim() !== '' || filter.type !== 'all' || filter.videoId !== 'all' || filter.minRating > 0 || filter.tag !== 'all';
+
+export type GallerySortKey = 'createdAt' | 'captureTime' | 'clipOrder' | 'rating';
+
+export const GALLERY_SORT_OPTIONS: { key: GallerySortKey; label: string }[] = [
+  { key: 'createdAt', label: 'Capturados recentemente' },
+  { key: 'captureTime', label: 'Instante no clipe' },
+  { key: 'clipOrder', label: 'Ordem dos clipes' },
+  { key: 'rating', label: 'Avaliação' },
+];
+
+// Tags sem espaços nas pontas, sem vazias e sem repetir (ignorando maiúsculas)
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLocaleLowerCase('pt-BR');
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Todas as tags usadas na galeria, em ordem alfabética
+export const collectGalleryTags = (items: GalleryItem[]): string[] =>
+  normalizeTags(items.flatMap(item => item.tags ?? [])).sort((a, b) => a.localeCompare(b, 'pt-BR', { sensitivity: 'base', numeric: true }));
+
+export const filterGalleryItems = (items: GalleryItem[], filter: GalleryFilter): GalleryItem[] => {
+  const query = filter.query.trim().toLocaleLowerCase('pt-BR');
+  const tag = filter.tag.toLocaleLowerCase('pt-BR');
+  return items.filter(item =>
+    (filter.type === 'all' || item.type === filter.type) &&
+    (filter.videoId === 'all' || item.sourceVideoId === filter.videoId) &&
+    (item.rating ?? 0) >= filter.minRating &&
+    (filter.tag === 'all' || !!item.tags?.some(t => t.toLocaleLowerCase('pt-BR') === tag)) &&
+    (!query || !!item.notes?.toLocaleLowerCase('pt-BR').includes(query))
+  );
+};
+
+/**
+ * Recentes e avaliação do maior para o menor; instante e ordem dos clipes em ordem crescente.
+ * Capturas sem origem (ou de clipes removidos) vão para o fim; empates ficam com as mais recentes primeiro.
+ */
+export const sortGalleryItems = (items: GalleryItem[], key: GallerySortKey, videos: VideoItem[]): GalleryItem[] => {
+  const clipIndex = new Map(videos.map((video, i) => [video.id, i]));
+  const last = Number.POSITIVE_INFINITY;
+  const compare = (a: GalleryItem, b: GalleryItem): number => {
+    if (key === 'rating') return (b.rating ?? 0) - (a.rating ?? 0);
+    if (key === 'captureTime') return (a.captureTime ?? last) - (b.captureTime ?? last);
+    if (key === 'clipOrder') {
+      const byClip = (clipIndex.get(a.sourceVideoId ?? '') ?? last) - (clipIndex.get(b.sourceVideoId ?? '') ?? last);
+      return Number.isNaN(byClip) || byClip === 0 ? (a.captureTime ?? last) - (b.captureTime ?? last) : byClip;
+    }
+    return 0;
+  };
+  return [...items].sort((a, b) => {
+    const result = compare(a, b);
+    return Number.isNaN(result) || result === 0 ? b.createdAt - a.createdAt : result;
+  });
+};
@@ -0,0 +1,258 @@
+import {
+  AspectRatio, GalleryItem, GalleryItemType, MediaInfo, migrateProjectRecord, Project, PROJECT_SCHEMA_VERSION, readArray, readAspectRatio,
+  readGalleryAnnotations, readGalleryCapture, readGalleryType, readMediaInfo, readNumber, readOptionalNumber, readRecord, readString, readVideoSettings, VideoItem, VideoSettings
+} from './project';
+import { offlineMediaKey } from './media';
+
+// Pacote portátil de projeto (.ffproj): ZIP com manifest.json + mídia + PNGs da galeria
+
+export const BUNDLE_EXTENSION = '.ffproj';
+export const BUNDLE_FORMAT = 'fantastic-films-project';
+export const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+// Arquivo de vídeo referenciado pelo manifest (um por File, mesmo com clipes duplicados)
+export interface BundleMedia extends MediaInfo {
+  key: string;
+  path?: string; // ausente quando o pacote foi exportado sem mídia (ou o clipe já estava offline)
+}
+
+interface BundleVideo extends VideoSettings {
+  mediaKey: string;
+}
+
+interface BundleGalleryItem extends Pick<GalleryItem, 'captureTime' | 'frameNumber' | 'sourceWidth' | 'sourceHeight' | 'rating' | 'tags' | 'notes'> {
+  path: string;
+  type: GalleryItemType;
+  videoName: string;
+  createdAt: number;
+  videoIndex?: number; // clipe de origem, pela posição em `videos` (os ids não vão no pacote)
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  includesMedia: boolean;
+  project: {
+    schemaVersion: number; // mesmo esquema (e migrações) dos projetos salvos
+    name: string;
+    aspectRatio: AspectRatio;
+    createdAt: number;
+    media: BundleMedia[];
+    videos: BundleVideo[];
+    galleryItems: BundleGalleryItem[];
+  };
+}
+
+export interface BundleContents {
+  manifest: BundleManifest;
+  media: Map<string, File>;       // mídia encontrada no pacote, por chave
+  gallery: Map<string, string>;   // caminho do PNG -> data URL
+}
+
+const safeFileName = (name: string) => name.replace(/[^\w.\-]+/g, '_');
+
+const dataUrlToBase64 = (src: string) => src.slice(src.indexOf(',') + 1);
+
+// Dados do arquivo de um clipe; clipes offline antigos, sem registro, ficam só com o nome
+const mediaInfoOf = (video: VideoItem): MediaInfo => {
+  if (!video.file) return video.media ?? { fileName: video.name, type: '', size: 0, lastModified: 0 };
+  const { name, type, size, lastModified } = video.file;
+  return { ...video.media, fileName: name, type, size, lastModified };
+};
+
+/**
+ * Monta o .ffproj de um projeto. Sem mídia, só o manifest e os PNGs vão no pacote
+ * e os vídeos são religados na importação. Clipes offline entram sem arquivo.
+ */
+export const exportProjectBundle = async (project: Project, options: { includeMedia: boolean }): Promise<Blob> => {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+
+  // Clipes online se agrupam pelo File; offline, pela mesma chave usada ao religar
+  const sourceOf = (video: VideoItem): File | string => video.file ?? offlineMediaKey(video);
+  const keys = new Map<File | string, string>();
+  const media: BundleMedia[] = [];
+  project.videos.forEach(video => {
+    const source = sourceOf(video);
+    if (keys.has(source)) return;
+    const key = `media-${media.length + 1}`;
+    keys.set(source, key);
+    const info = mediaInfoOf(video);
+    const path = options.includeMedia && video.file ? `media/${media.length + 1}_${safeFileName(info.fileName)}` : undefined;
+    media.push({ ...info, key, path });
+    // STORE: vídeo já é comprimido, recomprimir só gasta tempo
+    if (path) zip.file(path, video.file!, { compression: 'STORE' });
+  });
+
+  const galleryItems = project.galleryItems.map(item => {
+    const path = `gallery/${item.id}.png`;
+    zip.file(path, dataUrlToBase64(item.src), { base64: true, compression: 'STORE' });
+    const videoIndex = project.videos.findIndex(video => video.id === item.sourceVideoId);
+    return {
+      path, type: item.type, videoName: item.videoName, createdAt: item.createdAt,
+      videoIndex: videoIndex === -1 ? undefined : videoIndex,
+      captureTime: item.captureTime, frameNumber: item.frameNumber, sourceWidth: item.sourceWidth, sourceHeight: item.sourceHeight,
+      rating: item.rating, tags: item.tags, notes: item.notes,
+    };
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    includesMedia: options.includeMedia,
+    project: {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      name: project.name,
+      aspectRatio: project.aspectRatio,
+      createdAt: project.createdAt,
+      media,
+      videos: project.videos.map(video => ({
+        mediaKey: keys.get(sourceOf(video))!,
+        name: video.name,
+        crop: video.crop,
+        inPoint: video.inPoint,
+        outPoint: video.outPoint,
+        transition: video.transition,
+        sceneCuts: video.sceneCuts,
+      })),
+      galleryItems,
+    },
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// Migra e valida o projeto do manifest com as mesmas regras dos projetos salvos
+const parseBundleProject = (raw: unknown): BundleManifest['project'] => {
+  const { record } = migrateProjectRecord(raw);
+  const media = readArray(record, 'media', '').map((value, i): BundleMedia => {
+    const path = `media[${i}].`;
+    const entry = readRecord(value, `media[${i}]`);
+    return {
+      ...readMediaInfo(entry, path),
+      key: readString(entry, 'key', path),
+      path: entry.path === undefined ? undefined : readString(entry, 'path', path),
+    };
+  });
+  const keys = new Set(media.map(m => m.key));
+
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name: readString(record, 'name', ''),
+    aspectRatio: readAspectRatio(record, ''),
+    createdAt: readNumber(record, 'createdAt', ''),
+    media,
+    videos: readArray(record, 'videos', '').map((value, i) => {
+      const path = `videos[${i}].`;
+      const video = readRecord(value, `videos[${i}]`);
+      const mediaKey = readString(video, 'mediaKey', path);
+      if (!keys.has(mediaKey)) throw new Error(`Projeto inválido — ${path}mediaKey: mídia "${mediaKey}" não está no manifest.`);
+      return { ...readVideoSettings(video, path), mediaKey };
+    }),
+    galleryItems: readArray(record, 'galleryItems', '').map((value, i) => {
+      const path = `galleryItems[${i}].`;
+      const item = readRecord(value, `galleryItems[${i}]`);
+      return {
+        path: readString(item, 'path', path),
+        type: readGalleryType(item, path),
+        videoName: readString(item, 'videoName', path),
+        createdAt: readNumber(item, 'createdAt', path),
+        videoIndex: readOptionalNumber(item, 'videoIndex', path),
+        ...readGalleryCapture(item, path),
+        ...readGalleryAnnotations(item, path),
+      };
+    }),
+  };
+};
+
+// Lê o pacote e confere formato/versão antes de qualquer coisa ser criada
+export const readProjectBundle = async (file: File): Promise<BundleContents> => {
+  const JSZip = (await import('jszip')).default;
+  let zip: InstanceType<typeof JSZip>;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error(`"${file.name}" não é um pacote ${BUNDLE_EXTENSION} válido.`);
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error(`O pacote não tem ${MANIFEST_PATH}.`);
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`${MANIFEST_PATH} está corrompido.`);
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || !manifest.project) throw new Error('O arquivo não é um projeto do Fantastic Films.');
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`Pacote na versão ${manifest.version}; esta versão do app lê até a ${BUNDLE_VERSION}.`);
+  }
+  manifest.project = parseBundleProject(manifest.project);
+
+  const media = new Map<string, File>();
+  for (const entry of manifest.project.media) {
+    const zipped = entry.path ? zip.file(entry.path) : null;
+    if (!zipped) continue;
+    const blob = await zipped.async('blob');
+    media.set(entry.key, new File([blob], entry.fileName, { type: entry.type, lastModified: entry.lastModified }));
+  }
+
+  const gallery = new Map<string, string>();
+  for (const item of manifest.project.galleryItems) {
+    const zipped = zip.file(item.path);
+    if (zipped) gallery.set(item.path, `data:image/png;base64,${await zipped.async('base64')}`);
+  }
+
+  return { manifest, media, gallery };
+};
+
+/**
+ * Converte o conteúdo do pacote num projeto novo (ids novos para projeto, clipes e capturas).
+ * Clipes cuja mídia não veio no pacote entram offline, com os dados do arquivo para religar.
+ */
+export const buildImportedProject = (contents: BundleContents): Project => {
+  const { project } = contents.manifest;
+  const urls = new Map<string, string>();
+
+  const videos = project.videos.map((video): VideoItem => {
+    const { key, path, ...media } = project.media.find(m => m.key === video.mediaKey)!;
+    const settings = {
+      id: crypto.randomUUID(),
+      media,
+      name: video.name,
+      crop: video.crop,
+      inPoint: video.inPoint,
+      outPoint: video.outPoint,
+      transition: video.transition,
+      sceneCuts: video.sceneCuts,
+    };
+    const file = contents.media.get(key);
+    if (!file) return settings;
+    if (!urls.has(key)) urls.set(key, URL.createObjectURL(file));
+    return { ...settings, file, url: urls.get(key)! };
+  });
+
+  const galleryItems = project.galleryItems.flatMap(item => {
+    const src = contents.gallery.get(item.path);
+    if (!src) return [];
+    const { path, videoIndex, ...rest } = item;
+    return [{ ...rest, id: crypto.randomUUID(), src, sourceVideoId: videoIndex === undefined ? undefined : videos[videoIndex]?.id }];
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    name: project.name,
+    aspectRatio: project.aspectRatio,
+    createdAt: project.createdAt,
+    lastModified: Date.now(),
+    videos,
+    galleryItems,
+  };
+};
+
+export const bundleFileName = (projectName: string) =>
+  `${(projectName || 'projeto').replace(/[^a-z0-9]/gi, '_').toLowerCase()}${BUNDLE_EXTENSION}`;
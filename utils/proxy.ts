@@ -0,0 +1,56 @@
+// Proxies: cópias leves dos clipes grandes para tocar e navegar nos cards sem decodificar 4K.
+// Capturas para a galeria e a exportação sempre leem a mídia original.
+import { runEngineJob } from './ffmpegEngine';
+import { enqueueJob, ENGINE_LANE } from './jobQueue';
+import { extensionOf, probeFile } from './mediaProbe';
+import { getSourceSize } from './media';
+import { VideoItem } from './project';
+
+// Maior lado do proxy, em pixels; clipes até esse tamanho não precisam de proxy
+export const PROXY_MAX_SIZE = 960;
+// Keyframe a cada 12 frames: buscar no meio do clipe não precisa decodificar segundos de vídeo
+const PROXY_GOP = 12;
+
+export const canUseProxy = (video: VideoItem): boolean => {
+  const size = getSourceSize(video);
+  return !!size && Math.max(size.width, size.height) > PROXY_MAX_SIZE;
+};
+
+const proxyName = (file: File) => {
+  const dot = file.name.lastIndexOf('.');
+  return `${dot > 0 ? file.name.slice(0, dot) : file.name}_proxy.mp4`;
+};
+
+/**
+ * Enfileira a geração do proxy (H.264 leve, tarefa visível na fila). A origem é o intermediário
+ * de edição quando houver. `onReady` é chamado a cada conclusão, inclusive numa nova tentativa.
+ */
+export const enqueueProxyGeneration = (source: File, onReady: (proxy: File) => void): string => enqueueJob({
+  label: `Gerar proxy de ${source.name}`,
+  lane: ENGINE_LANE,
+  run: async ({ signal, reportProgress }) => {
+    reportProgress(0, 'Carregando motor de vídeo...');
+    const proxy = await runEngineJob(`Gerar proxy de ${source.name}`, async ctx => {
+      const input = await ctx.writeFile(`source${extensionOf(source.name)}`, source);
+      const { duration } = await probeFile(ctx, input);
+      const output = ctx.outputPath('proxy.mp4');
+      const { exitCode } = await ctx.exec([
+        '-i', input,
+        '-map', '0:v:0', '-map', '0:a:0?',
+        '-vf', `scale=${PROXY_MAX_SIZE}:${PROXY_MAX_SIZE}:force_original_aspect_ratio=decrease:force_divisible_by=2,format=yuv420p`,
+        '-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '28', '-g', String(PROXY_GOP),
+        '-c:a', 'aac', '-b:a', '96k',
+        '-movflags', '+faststart',
+        output
+      ], {
+        onProgress: ({ time }) => {
+          if (duration > 0) reportProgress(time / 1_000_000 / duration, 'Gerando proxy...');
+        },
+      });
+      if (exitCode !== 0) throw new Error(`O FFmpeg não conseguiu gerar o proxy de "${source.name}" (código ${exitCode}).`);
+      const data = await ctx.readFile(output);
+      return new File([data], proxyName(source), { type: 'video/mp4', lastModified: Date.now() });
+    }, signal).promise;
+    if (!signal.aborted) onReady(proxy);
+  }
+});
@@ -0,0 +1,83 @@
+// Detecção de cortes (mudanças de cena) com o filtro `select=gt(scene,...)` do FFmpeg e captura
+// de um frame representativo por cena, para montar o storyboard na galeria.
+import { runEngineJob } from './ffmpegEngine';
+import { enqueueJob, ENGINE_LANE } from './jobQueue';
+import { extensionOf } from './mediaProbe';
+import { grabFrame, probeDuration } from './frames';
+import { OnlineVideoItem } from './project';
+import { getClipRange } from './timeline';
+
+// Limiar do score de cena (0..1): menor = mais sensível, acha mais cortes
+export const DEFAULT_SCENE_THRESHOLD = 0.3;
+export const MIN_SCENE_THRESHOLD = 0.05;
+export const MAX_SCENE_THRESHOLD = 0.6;
+// Cortes mais próximos que isso (flashes, fades) contam como um só
+const MIN_SCENE_LENGTH = 0.5;
+// Largura usada na análise: o score de cena não precisa de resolução
+const ANALYSIS_WIDTH = 320;
+
+export interface SceneDetectionResult {
+  cuts: number[];   // instantes dos cortes, em segundos da origem
+  frames: { src: string; time: number }[]; // PNG (com o corte do clipe) do meio de cada cena
+}
+
+// Instantes dos cortes a partir das linhas do showinfo (pts_time relativo ao início do trecho)
+export const parseSceneCuts = (log: string, offset: number): number[] => {
+  const cuts: number[] = [];
+  log.split('\n').forEach(line => {
+    const match = line.includes('showinfo') ? line.match(/pts_time:\s*(-?\d+(?:\.\d+)?)/) : null;
+    if (!match) return;
+    const time = offset + parseFloat(match[1]);
+    if (cuts.length === 0 || time - cuts[cuts.length - 1] >= MIN_SCENE_LENGTH) cuts.push(time);
+  });
+  return cuts;
+};
+
+// Meio de cada cena entre a entrada, os cortes e a saída do clipe
+export const sceneMidpoints = (cuts: number[], start: number, end: number): number[] => {
+  const bounds = [start, ...cuts.filter(c => c > start && c < end), end];
+  return bounds.slice(1).map((bound, i) => (bounds[i] + bound) / 2);
+};
+
+/**
+ * Enfileira a detecção de cenas de um clipe (dentro do trim) e a captura dos frames.
+ * A análise lê o proxy quando existe; os frames vêm sempre da mídia em `url`.
+ */
+export const enqueueSceneDetection = (
+  video: OnlineVideoItem,
+  threshold: number,
+  aspect: number,
+  onDone: (result: SceneDetectionResult) => void
+): string => enqueueJob({
+  label: `Detectar cenas em ${video.name}`,
+  lane: ENGINE_LANE,
+  run: async ({ signal, reportProgress }) => {
+    const duration = video.media?.duration ?? await probeDuration(video.url);
+    const { start, end } = getClipRange(video, duration);
+    if (!(end > start)) throw new Error(`Duração de "${video.name}" ainda desconhecida.`);
+    const source = video.proxyFile ?? video.playbackFile ?? video.file;
+    reportProgress(0, 'Carregando motor de vídeo...');
+
+    const cuts = await runEngineJob(`Detectar cenas em ${video.name}`, async ctx => {
+      const input = await ctx.writeFile(`scenes${extensionOf(source.name)}`, source);
+      const { exitCode, log } = await ctx.exec([
+        '-ss', start.toFixed(3), '-t', (end - start).toFixed(3), '-i', input,
+        '-an', '-vf', `scale=${ANALYSIS_WIDTH}:-2,select='gt(scene,${threshold.toFixed(2)})',showinfo`,
+        '-f', 'null', '-'
+      ], {
+        onProgress: ({ time }) => reportProgress(0.8 * Math.min(1, time / 1_000_000 / (end - start)), 'Procurando cortes...'),
+      });
+      if (exitCode !== 0) throw new Error(`O FFmpeg não conseguiu analisar "${video.name}" (código ${exitCode}).`);
+      return parseSceneCuts(log, start);
+    }, signal).promise;
+
+    const times = sceneMidpoints(cuts, start, end);
+    const frames: SceneDetectionResult['frames'] = [];
+    for (const time of times) {
+      if (signal.aborted) return;
+      frames.push({ src: await grabFrame(video.url, () => time, video.crop, aspect), time });
+      reportProgress(0.8 + 0.2 * frames.length / times.length, 'Capturando frames...');
+    }
+    if (!signal.aborted) onDone({ cuts, frames });
+  }
+});
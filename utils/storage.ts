@@ -0,0 +1,232 @@
+// Persistência local em IndexedDB: metadados dos projetos (com as capturas da galeria) e
+// os arquivos de vídeo originais, guardados uma única vez mesmo quando vários clipes usam o mesmo arquivo.
+import { parseStoredProject, Project, PROJECT_SCHEMA_VERSION, StoredProject } from './project';
+
+const DB_NAME = 'fantastic-films';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const MEDIA_STORE = 'media';
+
+// Uso do armazenamento do navegador a partir do qual o app avisa o usuário
+export const QUOTA_WARNING_RATIO = 0.85;
+
+interface StoredMedia {
+  id: string;
+  file: File;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+// Id de mídia por arquivo em memória; clipes duplicados compartilham o mesmo File
+const mediaIds = new WeakMap<File, string>();
+
+const mediaIdFor = (file: File): string => {
+  let id = mediaIds.get(file);
+  if (!id) {
+    id = crypto.randomUUID();
+    mediaIds.set(file, id);
+  }
+  return id;
+};
+
+// Registros que falharam na validação (e a mídia deles): preservados no banco até serem corrigidos
+const unreadableIds = new Set<string>();
+const unreadableMediaIds = new Set<string>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('Transação cancelada.'));
+    tx.onerror = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export interface LoadResult {
+  projects: Project[];
+  migratedIds: Set<string>; // registros de esquema antigo, a regravar no formato atual
+  errors: string[];         // registros ilegíveis (ficam no banco, intocados)
+}
+
+/**
+ * Lê todos os projetos salvos, migrando/validando cada registro, e recria os vídeos (File + blob URL).
+ * Clipes cuja mídia sumiu do banco voltam offline (com os dados do arquivo) para serem religados.
+ */
+export const loadProjects = async (): Promise<LoadResult> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readonly');
+  const [records, media] = await Promise.all([
+    requestToPromise(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<unknown[]>),
+    requestToPromise(tx.objectStore(MEDIA_STORE).getAll() as IDBRequest<StoredMedia[]>),
+  ]);
+
+  const files = new Map(media.map(m => [m.id, m.file]));
+  const urls = new Map<string, string>();
+  files.forEach((file, id) => mediaIds.set(file, id));
+
+  const projects: Project[] = [];
+  const migratedIds = new Set<string>();
+  const errors: string[] = [];
+  records.forEach(record => {
+    let stored: StoredProject;
+    try {
+      const parsed = parseStoredProject(record);
+      stored = parsed.project;
+      if (parsed.migrated) migratedIds.add(stored.id);
+    } catch (error) {
+      const raw = record as { id?: unknown; name?: unknown; videos?: unknown };
+      if (typeof raw?.id === 'string') unreadableIds.add(raw.id);
+      // Original, intermediário e proxy desse registro ficam guardados até ele voltar a ser legível
+      if (Array.isArray(raw?.videos)) raw.videos.forEach(v => {
+        [v?.mediaId, v?.playbackMediaId, v?.proxyMediaId].forEach(id => { if (typeof id === 'string') unreadableMediaIds.add(id); });
+      });
+      const name = raw?.name;
+      errors.push(`${typeof name === 'string' ? `"${name}"` : 'Projeto sem nome'}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    const { schemaVersion, ...project } = stored;
+    projects.push({
+      ...project,
+      videos: project.videos.map(({ mediaId, playbackMediaId, proxyMediaId, ...video }) => {
+        const file = mediaId === undefined ? undefined : files.get(mediaId);
+        if (!mediaId || !file) return video;
+        // Uma URL por arquivo, como no import
+        const urlFor = (id: string, media: File) => {
+          if (!urls.has(id)) urls.set(id, URL.createObjectURL(media));
+          return urls.get(id)!;
+        };
+        // A prévia toca o intermediário, se ele ainda existir; sem ele o arquivo é testado de novo
+        const playbackFile = playbackMediaId === undefined ? undefined : files.get(playbackMediaId);
+        const proxyFile = proxyMediaId === undefined ? undefined : files.get(proxyMediaId);
+        return {
+          ...video,
+          file,
+          url: playbackFile ? urlFor(playbackMediaId!, playbackFile) : urlFor(mediaId, file),
+          playbackFile,
+          proxyFile,
+          proxyUrl: proxyFile && urlFor(proxyMediaId!, proxyFile),
+        };
+      }),
+    });
+  });
+
+  projects.sort((a, b) => b.lastModified - a.lastModified);
+  return { projects, migratedIds, errors };
+};
+
+/**
+ * Grava os projetos alterados, apaga os removidos e limpa mídia que ninguém mais usa.
+ * `projects` é sempre a lista completa atual; `changedIds` diz quais precisam ser regravados.
+ */
+export const saveProjects = async (projects: Project[], changedIds: Set<string>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite');
+  const projectStore = tx.objectStore(PROJECTS_STORE);
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+
+  const [storedProjectIds, storedMediaIds] = await Promise.all([
+    requestToPromise(projectStore.getAllKeys()),
+    requestToPromise(mediaStore.getAllKeys()),
+  ]);
+  const existingMedia = new Set(storedMediaIds.map(String));
+  const liveProjects = new Set(projects.map(p => p.id));
+  const liveMedia = new Set<string>();
+
+  projects.forEach(project => {
+    project.videos.forEach(video => {
+      [video.file, video.playbackFile, video.proxyFile].forEach(file => {
+        if (!file) return;
+        const mediaId = mediaIdFor(file);
+        liveMedia.add(mediaId);
+        if (!existingMedia.has(mediaId)) {
+          mediaStore.put({ id: mediaId, file } satisfies StoredMedia);
+          existingMedia.add(mediaId);
+        }
+      });
+    });
+    if (!changedIds.has(project.id)) return;
+    const record: StoredProject = {
+      ...project,
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      videos: project.videos.map(({ file, url, playbackFile, proxyFile, proxyUrl, ...video }) => ({
+        ...video,
+        mediaId: file ? mediaIdFor(file) : undefined,
+        playbackMediaId: file && playbackFile ? mediaIdFor(playbackFile) : undefined,
+        proxyMediaId: file && proxyFile ? mediaIdFor(proxyFile) : undefined,
+      })),
+    };
+    projectStore.put(record);
+  });
+
+  // Registros que não passaram na validação não estão em `projects`, mas não são apagados
+  storedProjectIds.forEach(id => { if (!liveProjects.has(String(id)) && !unreadableIds.has(String(id))) projectStore.delete(id); });
+  existingMedia.forEach(id => { if (!liveMedia.has(id) && !unreadableMediaIds.has(id)) mediaStore.delete(id); });
+
+  await transactionDone(tx);
+};
+
+// Espaço ocupado por um projeto: arquivos de vídeo, intermediários e proxies (sem repetir os duplicados) + capturas
+export const estimateProjectBytes = (project: { videos: { file?: File; playbackFile?: File; proxyFile?: File }[]; galleryItems: { src: string }[] }): number => {
+  const files = new Set(project.videos.flatMap(v => [v.file, v.playbackFile, v.proxyFile].filter((f): f is File => f !== undefined)));
+  let bytes = 0;
+  files.forEach(file => { bytes += file.size; });
+  // data URL em base64: ~3 bytes a cada 4 caracteres
+  project.galleryItems.forEach(item => { bytes += Math.round(item.src.length * 0.75); });
+  return bytes;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+// Pede ao navegador para não apagar os dados sob pressão de espaço (pode ser negado em silêncio)
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted?.()) return true;
+  return navigator.storage.persist();
+};
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unit]}`;
+};
@@ -0,0 +1,47 @@
+// Conversões entre segundos, número do frame e timecode SMPTE (HH:MM:SS:FF; drop-frame com ";")
+
+// Usado quando nem o arquivo nem a reprodução informam o fps
+export const DEFAULT_FRAME_RATE = 30;
+
+// Taxas comuns para arredondar a medição feita durante a reprodução
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+// Frame que está na tela no instante `time` (a folga absorve o arredondamento do currentTime)
+export const timeToFrame = (time: number, fps: number) => Math.max(0, Math.floor(time * fps + 1e-3));
+
+// Meio do frame: buscar o início exato às vezes cai no frame anterior
+export const frameToTime = (frame: number, fps: number) => (frame + 0.5) / fps;
+
+// 29.97 e 59.94 (NTSC) pulam números de frame para o timecode acompanhar o relógio
+const isDropFrame = (fps: number) => {
+  const nominal = Math.round(fps);
+  return nominal % 30 === 0 && Math.abs(fps - nominal / 1.001) < 0.01;
+};
+
+export const formatTimecode = (frame: number, fps: number): string => {
+  const nominal = Math.max(1, Math.round(fps));
+  const dropFrame = isDropFrame(fps);
+  let count = frame;
+  if (dropFrame) {
+    // Pula os números 0 e 1 (ou 0–3 em 59.94) no início de cada minuto, exceto nos múltiplos de 10
+    const drop = nominal / 15;
+    const perTenMinutes = Math.round(fps * 600);
+    const perMinute = nominal * 60 - drop;
+    const tens = Math.floor(frame / perTenMinutes);
+    const rest = frame % perTenMinutes;
+    count += drop * 9 * tens + (rest > drop ? drop * Math.floor((rest - drop) / perMinute) : 0);
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const ff = count % nominal;
+  const totalSeconds = Math.floor(count / nominal);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${dropFrame ? ';' : ':'}${pad(ff)}`;
+};
+
+// fps a partir dos intervalos entre frames apresentados (mediana, arredondada para uma taxa comum)
+export const estimateFrameRate = (intervals: number[]): number | undefined => {
+  const valid = intervals.filter(d => d > 0).sort((a, b) => a - b);
+  if (valid.length === 0) return undefined;
+  const measured = 1 / valid[Math.floor(valid.length / 2)];
+  const nearest = COMMON_FRAME_RATES.reduce((best, rate) => Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best);
+  return Math.abs(nearest - measured) / nearest < 0.03 ? nearest : measured;
+};
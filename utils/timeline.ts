@@ -0,0 +1,101 @@
+// Pontos de corte (trim) de um clipe, em segundos da origem
+export interface TrimPoints {
+  inPoint?: number;
+  outPoint?: number;
+}
+
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+// Menor trecho que um clipe pode ter depois do trim
+export const MIN_CLIP_DURATION = 0.1;
+
+// Trecho efetivamente usado do clipe; sem trim vai de 0 até a duração
+export const getClipRange = (trim: TrimPoints, duration: number): ClipRange => {
+  if (!(duration > 0)) return { start: 0, end: 0 };
+  const start = Math.min(Math.max(0, trim.inPoint ?? 0), Math.max(0, duration - MIN_CLIP_DURATION));
+  const end = Math.min(duration, Math.max(start + MIN_CLIP_DURATION, trim.outPoint ?? duration));
+  return { start, end };
+};
+
+export const getClipDuration = (trim: TrimPoints, duration: number): number => {
+  const { start, end } = getClipRange(trim, duration);
+  return end - start;
+};
+
+// Normaliza o trim para salvar: pontos nas bordas do clipe voltam a ser "sem trim"
+export const normalizeTrim = (inPoint: number, outPoint: number, duration: number): TrimPoints => {
+  const range = getClipRange({ inPoint, outPoint }, duration);
+  return {
+    inPoint: range.start > 0 ? range.start : undefined,
+    outPoint: range.end < duration ? range.end : undefined,
+  };
+};
+
+// m:ss.d — usado nos rótulos de trim e posição
+export const formatTime = (seconds: number): string => {
+  const safe = Math.max(0, seconds);
+  const mins = Math.floor(safe / 60);
+  const secs = Math.floor(safe % 60);
+  const tenths = Math.floor((safe % 1) * 10);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${tenths}`;
+};
+
+// --- Transições ---
+
+export type TransitionType = 'cut' | 'crossfade' | 'dip-black' | 'dip-white' | 'wipe' | 'slide';
+
+// Transição do clipe para o próximo (guardada no clipe de saída)
+export interface TransitionSettings {
+  type: TransitionType;
+  duration: number;
+}
+
+export const TRANSITION_OPTIONS: { type: TransitionType; label: string }[] = [
+  { type: 'cut', label: 'Corte seco' },
+  { type: 'crossfade', label: 'Dissolver' },
+  { type: 'dip-black', label: 'Fade preto' },
+  { type: 'dip-white', label: 'Fade branco' },
+  { type: 'wipe', label: 'Cortina' },
+  { type: 'slide', label: 'Deslizar' },
+];
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+export const MAX_TRANSITION_DURATION = 2;
+
+export interface TimelineEntry {
+  start: number;         // início do clipe no programa
+  duration: number;      // duração do trecho (já com trim)
+  transitionIn: number;  // sobreposição com o clipe anterior
+  transitionOut: number; // sobreposição com o próximo
+}
+
+export interface TimelineLayout {
+  entries: TimelineEntry[];
+  total: number;
+}
+
+/**
+ * Posiciona os clipes no programa descontando as sobreposições das transições.
+ * Cada transição fica limitada à metade do clipe mais curto, então entrada + saída nunca excedem um clipe.
+ */
+export const layoutTimeline = (clips: { duration: number; transition?: TransitionSettings }[]): TimelineLayout => {
+  const entries: TimelineEntry[] = [];
+  let cursor = 0;
+  let previousOut = 0;
+
+  clips.forEach((clip, i) => {
+    const next = clips[i + 1];
+    const transitionOut = next && clip.transition && clip.transition.type !== 'cut'
+      ? Math.max(0, Math.min(clip.transition.duration, clip.duration / 2, next.duration / 2))
+      : 0;
+    const start = cursor - previousOut;
+    entries.push({ start, duration: clip.duration, transitionIn: previousOut, transitionOut });
+    cursor = start + clip.duration;
+    previousOut = transitionOut;
+  });
+
+  return { entries, total: Math.max(0, cursor) };
+};
@@ -0,0 +1,30 @@
+import type { CSSProperties } from 'react';
+import { TransitionType } from './timeline';
+
+export interface TransitionStyles {
+  from: CSSProperties;            // camada do clipe que sai
+  to: CSSProperties;              // camada do clipe que entra
+  overlay: CSSProperties | null;  // cor sólida dos fades para preto/branco
+}
+
+// Estilos CSS que imitam o filtro xfade correspondente no progresso p (0..1)
+export const getTransitionStyles = (type: TransitionType, p: number): TransitionStyles => {
+  switch (type) {
+    case 'crossfade':
+      return { from: {}, to: { opacity: p }, overlay: null };
+    case 'dip-black':
+    case 'dip-white':
+      return {
+        from: {},
+        to: { opacity: p >= 0.5 ? 1 : 0 },
+        overlay: { background: type === 'dip-black' ? '#000' : '#fff', opacity: 1 - Math.abs(p - 0.5) * 2 },
+      };
+    case 'wipe':
+      return { from: {}, to: { clipPath: `inset(0 0 0 ${(1 - p) * 100}%)` }, overlay: null };
+    case 'slide':
+      return { from: { transform: `translateX(${-p * 100}%)` }, to: { transform: `translateX(${(1 - p) * 100}%)` }, overlay: null };
+    case 'cut':
+    default:
+      return { from: {}, to: { opacity: p >= 1 ? 1 : 0 }, overlay: null };
+  }
+};
@@ -0,0 +1,169 @@
+import { CropSettings, getCropPlacement } from './crop';
+import { getClipRange, layoutTimeline, TransitionSettings, TransitionType, TrimPoints } from './timeline';
+import { EngineContext } from './ffmpegEngine';
+import { displaySize, extensionOf, probeFile } from './mediaProbe';
+
+// Clip de entrada para a renderização (na ordem da timeline)
+export interface RenderClip extends TrimPoints {
+  file: File;
+  name: string;
+  crop?: CropSettings;
+  transition?: TransitionSettings; // transição para o próximo clipe
+}
+
+// Formato final do vídeo exportado
+export interface RenderTarget {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export type RenderStage = 'preparando' | 'renderizando' | 'finalizando';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  ratio: number; // 0..1 dentro da etapa atual
+}
+
+interface ProbedClip {
+  path: string;
+  start: number;    // trecho usado (trim), em segundos da origem
+  duration: number; // duração do trecho usado
+  hasAudio: boolean;
+  width: number;
+  height: number;
+  crop?: CropSettings;
+  transition?: TransitionSettings;
+}
+
+const OUTPUT_FILE = 'output.mp4';
+const AUDIO_RATE = 48000;
+
+// Duração, resolução (como exibida, já com a rotação) e presença de áudio
+const probeInput = async (ctx: EngineContext, path: string): Promise<Omit<ProbedClip, 'path' | 'crop' | 'start' | 'transition'>> => {
+  const probe = await probeFile(ctx, path);
+  return { duration: probe.duration, hasAudio: !!probe.audioCodec, ...displaySize(probe) };
+};
+
+// Cadeia de vídeo que leva um clipe ao quadro de saída: corte salvo ou letterbox (padrão)
+export const buildFramingFilter = (clip: Pick<ProbedClip, 'crop' | 'width' | 'height'>, w: number, h: number): string => {
+  if (clip.crop && clip.width > 0 && clip.height > 0) {
+    const p = getCropPlacement(clip.crop, clip.width, clip.height, w, h);
+    if (p.sw >= 1 && p.sh >= 1) {
+      const dx = Math.min(w - 1, Math.max(0, Math.round(p.dx)));
+      const dy = Math.min(h - 1, Math.max(0, Math.round(p.dy)));
+      const dw = Math.max(1, Math.min(w - dx, Math.round(p.dw)));
+      const dh = Math.max(1, Math.min(h - dy, Math.round(p.dh)));
+      return `crop=${Math.floor(p.sw)}:${Math.floor(p.sh)}:${Math.round(p.sx)}:${Math.round(p.sy)},` +
+        `scale=${dw}:${dh},pad=${w}:${h}:${dx}:${dy}:black`;
+    }
+  }
+  return `scale=${w}:${h}:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2:black`;
+};
+
+// Equivalente no filtro xfade de cada transição
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  crossfade: 'fade',
+  'dip-black': 'fadeblack',
+  'dip-white': 'fadewhite',
+  wipe: 'wipeleft',
+  slide: 'slideleft',
+};
+
+/**
+ * Monta o filtergraph: normaliza cada clip (resolução, SAR, fps, timebase, áudio) e
+ * encadeia os pares com concat (corte seco) ou xfade/acrossfade (transições).
+ */
+export const buildTimelineFilter = (clips: ProbedClip[], target: RenderTarget): string => {
+  const { width: w, height: h, fps } = target;
+  const parts: string[] = [];
+
+  clips.forEach((clip, i) => {
+    const duration = clip.duration.toFixed(3);
+    // xfade exige timebase igual nas duas entradas, daí o settb
+    parts.push(`[${i}:v]${buildFramingFilter(clip, w, h)},setsar=1,fps=${fps},format=yuv420p,settb=AVTB[v${i}]`);
+    // Clips sem áudio recebem silêncio com a mesma duração para o concat não dessincronizar
+    parts.push(clip.hasAudio
+      ? `[${i}:a]aresample=${AUDIO_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo,apad,atrim=duration=${duration}[a${i}]`
+      : `anullsrc=r=${AUDIO_RATE}:cl=stereo,atrim=duration=${duration}[a${i}]`
+    );
+  });
+
+  if (clips.length === 1) {
+    parts.push('[v0]null[outv]', '[a0]anull[outa]');
+    return parts.join(';');
+  }
+
+  const { entries } = layoutTimeline(clips);
+  let video = 'v0';
+  let audio = 'a0';
+  for (let i = 1; i < clips.length; i++) {
+    const last = i === clips.length - 1;
+    const outV = last ? 'outv' : `vx${i}`;
+    const outA = last ? 'outa' : `ax${i}`;
+    const overlap = entries[i].transitionIn;
+    const transition = clips[i - 1].transition;
+
+    if (overlap > 0 && transition && transition.type !== 'cut') {
+      parts.push(`[${video}][v${i}]xfade=transition=${XFADE_TRANSITIONS[transition.type]}:duration=${overlap.toFixed(3)}:offset=${entries[i].start.toFixed(3)}[${outV}]`);
+      parts.push(`[${audio}][a${i}]acrossfade=d=${overlap.toFixed(3)}[${outA}]`);
+    } else {
+      parts.push(`[${video}][${audio}][v${i}][a${i}]concat=n=2:v=1:a=1[${outV}][${outA}]`);
+    }
+    video = outV;
+    audio = outA;
+  }
+  return parts.join(';');
+};
+
+/**
+ * Renderiza os clipes em sequência num único MP4 (H.264 + AAC), como tarefa do motor
+ * (`runEngineJob`); os arquivos virtuais são apagados pelo próprio motor ao final.
+ */
+export const renderTimeline = async (
+  ctx: EngineContext,
+  clips: RenderClip[],
+  target: RenderTarget,
+  onProgress: (progress: RenderProgress) => void
+): Promise<Blob> => {
+  if (clips.length === 0) throw new Error('Nenhum clipe para exportar.');
+
+  onProgress({ stage: 'preparando', ratio: 0 });
+  const probed: ProbedClip[] = [];
+  for (let i = 0; i < clips.length; i++) {
+    const path = await ctx.writeFile(`input_${i}${extensionOf(clips[i].file.name)}`, clips[i].file);
+    const info = await probeInput(ctx, path);
+    const range = getClipRange(clips[i], info.duration);
+    probed.push({ ...info, path, crop: clips[i].crop, transition: clips[i].transition, start: range.start, duration: range.end - range.start });
+    onProgress({ stage: 'preparando', ratio: (i + 1) / clips.length });
+  }
+
+  const totalDuration = layoutTimeline(probed).total;
+  const output = ctx.outputPath(OUTPUT_FILE);
+  const args = [
+    // -ss/-t antes do -i: o trim já chega ao filtergraph com timestamps a partir de 0
+    ...probed.flatMap(clip => [
+      ...(clip.duration > 0 ? ['-ss', clip.start.toFixed(3), '-t', clip.duration.toFixed(3)] : []),
+      '-i', clip.path
+    ]),
+    '-filter_complex', buildTimelineFilter(probed, target),
+    '-map', '[outv]', '-map', '[outa]',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
+    '-c:a', 'aac', '-b:a', '192k',
+    '-movflags', '+faststart',
+    output
+  ];
+
+  const { exitCode } = await ctx.exec(args, {
+    // `time` do evento de progresso vem em microssegundos do arquivo de saída
+    onProgress: ({ time }) => {
+      const ratio = totalDuration > 0 ? time / 1_000_000 / totalDuration : 0;
+      onProgress({ stage: 'renderizando', ratio: Math.min(1, Math.max(0, ratio)) });
+    },
+  });
+  if (exitCode !== 0) throw new Error(`O FFmpeg terminou com erro (código ${exitCode}).`);
+
+  onProgress({ stage: 'finalizando', ratio: 1 });
+  const data = await ctx.readFile(output);
+  return new Blob([data], { type: 'video/mp4' });
+};